@@ -5,8 +5,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
+import { ProtectedRoute } from "./components/ProtectedRoute";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Dashboard from "./pages/Dashboard";
+import Inventory from "./pages/Inventory";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import Products from "./pages/Products";
+import Quotations from "./pages/Quotations";
+import ProductDetail from "./pages/ProductDetail";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
@@ -22,7 +29,20 @@ const App = () => (
             <Sonner />
             <Routes>
               <Route path="/login" element={<Login />} />
-              <Route path="/" element={<Dashboard />} />
+              <Route element={<ProtectedRoute />}>
+                {/* Order routes open their dialog on top of the dashboard */}
+                <Route path="/" element={<Dashboard />}>
+                  <Route path="orders/new" />
+                  <Route path="orders/:id" />
+                  <Route path="orders/:id/edit" />
+                </Route>
+                <Route path="/quotations" element={<Quotations />} />
+                <Route path="/customers" element={<Customers />} />
+                <Route path="/customers/:id" element={<CustomerDetail />} />
+                <Route path="/products" element={<Products />} />
+                <Route path="/products/:id" element={<ProductDetail />} />
+                <Route path="/inventory" element={<Inventory />} />
+              </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
           </AuthProvider>
@@ -0,0 +1,85 @@
+import {
+  AuthToken,
+  CancelSaleOrderData,
+  CreditNote,
+  CreditNoteQuery,
+  Customer,
+  CustomerFormData,
+  OrderStatus,
+  PaginatedResult,
+  Payment,
+  PaymentFormData,
+  Product,
+  ProductFormData,
+  Quotation,
+  QuotationFormData,
+  ReturnFormData,
+  SaleOrder,
+  SaleOrderFormData,
+  SaleOrderQuery,
+  SKU,
+  SKUFormData,
+  StockAdjustmentData,
+  StockMovement
+} from "../types";
+
+// Contract shared by every backend adapter. Pages and contexts only ever talk
+// to this shape through `api`, so swapping adapters needs no UI changes.
+export interface ApiClient {
+  login: (username: string, password: string) => Promise<AuthToken>;
+  // Swaps the current, still valid access token for a fresh one
+  refreshToken: () => Promise<AuthToken>;
+  getCustomers: () => Promise<Customer[]>;
+  createCustomer: (customerData: CustomerFormData) => Promise<Customer>;
+  updateCustomer: (id: number, customerData: CustomerFormData) => Promise<Customer>;
+  // Refused once the customer has any order, cancelled ones included
+  deleteCustomer: (id: number) => Promise<void>;
+  // Every order billed to the customer, newest invoice first
+  getCustomerOrders: (id: number) => Promise<SaleOrder[]>;
+  getProducts: () => Promise<Product[]>;
+  createProduct: (productData: ProductFormData) => Promise<Product>;
+  updateProduct: (id: number, productData: ProductFormData) => Promise<Product>;
+  // Opening stock is recorded as the first entry in the SKU's stock ledger
+  createSKU: (productId: number, skuData: SKUFormData) => Promise<SKU>;
+  // Also retires or reinstates the SKU; stock on hand is not changed
+  updateSKU: (id: number, skuData: SKUFormData) => Promise<SKU>;
+  getSaleOrders: (query: SaleOrderQuery) => Promise<PaginatedResult<SaleOrder>>;
+  getSaleOrder: (id: number) => Promise<SaleOrder>;
+  // Pass `quotation_id` to convert an open quotation: the quote is linked to the new order
+  // and can't be converted or revised again
+  // The invoice number is issued here, next in the day's series, and never changes
+  createSaleOrder: (orderData: SaleOrderFormData) => Promise<SaleOrder>;
+  // Only draft and confirmed orders can be edited
+  updateSaleOrder: (id: number, orderData: SaleOrderFormData) => Promise<SaleOrder>;
+  // Moves the order along its lifecycle, recording who made the change and when.
+  // Cancelling goes through cancelSaleOrder and returns through createReturn.
+  updateSaleOrderStatus: (id: number, status: OrderStatus) => Promise<SaleOrder>;
+  // Cancels an order, giving a reason, and returns its items to stock. If payments were
+  // received, a credit note reverses the invoice and they stay as customer credit.
+  // Orders are never deleted, so invoice numbers have no gaps.
+  cancelSaleOrder: (id: number, cancellationData: CancelSaleOrderData) => Promise<SaleOrder>;
+  // Newest first
+  getCreditNotes: (query?: CreditNoteQuery) => Promise<CreditNote[]>;
+  // Takes back some or all of a delivered order's items: puts them back in stock and
+  // issues a numbered credit note reversing their GST. Once everything has come back
+  // the order is marked returned.
+  createReturn: (orderId: number, returnData: ReturnFormData) => Promise<CreditNote>;
+  // Newest first
+  getQuotations: () => Promise<Quotation[]>;
+  getQuotation: (id: number) => Promise<Quotation>;
+  createQuotation: (quotationData: QuotationFormData) => Promise<Quotation>;
+  // Saves a new version of the quote; converted quotes can't be revised
+  updateQuotation: (id: number, quotationData: QuotationFormData) => Promise<Quotation>;
+  // Payments against an order, oldest first. Recording or deleting one updates
+  // the order's amount received, balance due and payment status.
+  getPayments: (orderId: number) => Promise<Payment[]>;
+  // Refused if the amount is more than the balance due
+  recordPayment: (orderId: number, paymentData: PaymentFormData) => Promise<Payment>;
+  // Refused on cancelled orders and once a credit note has been issued
+  deletePayment: (orderId: number, paymentId: number) => Promise<void>;
+  // Stock ledger, oldest movement first
+  getStockMovements: (skuId: number) => Promise<StockMovement[]>;
+  adjustStock: (adjustment: StockAdjustmentData) => Promise<SKU>;
+  // Only offered by adapters backed by demo data; admins only
+  resetDemoData?: () => Promise<void>;
+}
@@ -0,0 +1,61 @@
+// Error hierarchy thrown by every ApiClient adapter. UI code branches on the
+// class (instanceof) rather than on message text or HTTP status codes.
+
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "The requested resource was not found") {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+// Field keys use react-hook-form paths, e.g. "invoice_no" or "items.0.quantity"
+export type FieldErrors = Record<string, string>;
+
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message = "Some fields are invalid", fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = "ValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = "The request conflicts with the current state of the resource") {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Your session has expired. Please log in again.") {
+    super(message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+// Signed in, but the user's role doesn't allow the action
+export class ForbiddenError extends ApiError {
+  constructor(message = "You don't have permission to do that") {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Unable to reach the server. Check your connection and try again.") {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+export const getErrorMessage = (error: unknown, fallback = "An error occurred") =>
+  error instanceof Error && error.message ? error.message : fallback;
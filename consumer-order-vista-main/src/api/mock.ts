@@ -0,0 +1,1547 @@
+import {
+  AuthToken,
+  CancelSaleOrderData,
+  CreditNote,
+  CreditNoteItem,
+  CreditNoteQuery,
+  Customer,
+  CustomerFormData,
+  OrderStatus,
+  PaginatedResult,
+  Payment,
+  PaymentFormData,
+  Product,
+  ProductFormData,
+  Quotation,
+  QuotationFormData,
+  QuotationRevision,
+  ReturnFormData,
+  SaleOrder,
+  SaleOrderFormData,
+  SaleOrderQuery,
+  SaleOrderSortField,
+  SKU,
+  SKUFormData,
+  StockAdjustmentData,
+  StockMovement,
+  StockMovementReason,
+  User
+} from "../types";
+import { format } from "date-fns";
+import { mockUsers } from "../mockData";
+import { getStockDeltas, getStockErrors } from "../lib/inventory";
+import {
+  calculateTax,
+  getBillingParty,
+  getCustomerState,
+  getGrandTotal,
+  getSKUGstRate,
+  getSupplyType,
+  GST_RATES
+} from "../lib/gst";
+import { SELLER } from "../lib/seller";
+import { CUSTOMER_TYPE_LABELS, EMAIL_PATTERN, isCustomerActive } from "../lib/customers";
+import { validateGstin } from "../lib/gstin";
+import { validatePincode } from "../lib/pincode";
+import { HSN_PATTERN, isSKUOnSale, MRP_ERROR } from "../lib/products";
+import { PAYMENT_MODE_LABELS, requiresPaymentReference, summarizePayments } from "../lib/payments";
+import {
+  CANCELLATION_REASON_LABELS,
+  canReturnOrder,
+  canTransition,
+  getReturnableQuantities,
+  getTransitionPermission,
+  isOrderEditable,
+  isOrderVoid,
+  ORDER_STATUS_LABELS,
+  requiresCancellationNote,
+  toStatusChange
+} from "../lib/orders";
+import { hasPermission, Permission } from "../lib/permissions";
+import { canConvertQuotation, isQuotationEditable } from "../lib/quotations";
+import { claimsToUser } from "../lib/token";
+import { ApiClient } from "./client";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from "./errors";
+import { canRefresh, issueToken, verifyPassword, verifyToken } from "./mockAuth";
+import { DbWrite, mockDb, ProductRecord } from "./mockDb";
+import { authSession } from "./session";
+
+// Helper to simulate API delay
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Joins the separately stored SKUs back onto their products
+const loadProducts = async (): Promise<Product[]> => {
+  const [products, skus] = await Promise.all([
+    mockDb.getAll("products"),
+    mockDb.getAll("skus"),
+  ]);
+
+  return products.map(product => ({
+    ...product,
+    sku: skus.filter(sku => sku.product === product.id),
+  }));
+};
+
+const findCustomer = async (customerProfileId: number): Promise<Customer | undefined> => {
+  const customers = await mockDb.getAll("customers");
+  return customers.find(c => c.customer_profile.id === customerProfileId);
+};
+
+// Every call acts as the holder of the access token; `permissions` are all required
+const requireUser = async (...permissions: Permission[]): Promise<User> => {
+  const user = claimsToUser(await verifyToken(authSession.getToken()));
+
+  if (permissions.some(permission => !hasPermission(user, permission))) {
+    throw new ForbiddenError();
+  }
+
+  return user;
+};
+
+// Dates the server stamps are the seller's local calendar day, like the ones
+// picked in the forms
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const validateCustomer = (customerData: CustomerFormData, customers: Customer[], customerId?: number) => {
+  const fieldErrors: Record<string, string> = {};
+  const email = customerData.email?.trim().toLowerCase();
+
+  if (!customerData.name?.trim()) {
+    fieldErrors.name = "Name is required";
+  }
+
+  if (!email) {
+    fieldErrors.email = "Email is required";
+  } else if (!EMAIL_PATTERN.test(email)) {
+    fieldErrors.email = "Enter a valid email address";
+  } else if (
+    customers.some(c => c.id !== customerId && c.customer_profile.email.toLowerCase() === email)
+  ) {
+    fieldErrors.email = "Another customer already uses this email";
+  }
+
+  const pincodeError = validatePincode(customerData.pincode || "");
+  if (pincodeError) {
+    fieldErrors.pincode = pincodeError;
+  }
+
+  if (!customerData.location_name?.trim()) {
+    fieldErrors.location_name = "Location is required";
+  }
+
+  if (!(customerData.type in CUSTOMER_TYPE_LABELS)) {
+    fieldErrors.type = "Choose a customer type";
+  }
+
+  const gstinError = customerData.gst ? validateGstin(customerData.gst) : null;
+  if (gstinError) {
+    fieldErrors.gst = gstinError;
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+const toCustomerProfile = (customerData: CustomerFormData) => ({
+  name: customerData.name.trim(),
+  email: customerData.email.trim(),
+  pincode: customerData.pincode,
+  location_name: customerData.location_name.trim(),
+  type: customerData.type,
+  gst: customerData.gst.trim().toUpperCase(),
+  color: customerData.color,
+});
+
+const validateProduct = (productData: ProductFormData) => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!productData.name?.trim()) {
+    fieldErrors.name = "Name is required";
+  }
+
+  if (!productData.brand?.trim()) {
+    fieldErrors.brand = "Brand is required";
+  }
+
+  if (!productData.category?.trim()) {
+    fieldErrors.category = "Category is required";
+  }
+
+  if (!HSN_PATTERN.test(productData.hsn_code?.trim() || "")) {
+    fieldErrors.hsn_code = "Enter a 4, 6 or 8 digit HSN code";
+  }
+
+  if (!GST_RATES.includes(productData.gst_rate)) {
+    fieldErrors.gst_rate = "Choose a GST rate";
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+const toProductFields = (productData: ProductFormData) => ({
+  name: productData.name.trim(),
+  brand: productData.brand.trim(),
+  category: productData.category.trim(),
+  characteristics: productData.characteristics?.trim() || "",
+  features: productData.features?.trim() || "",
+  hsn_code: productData.hsn_code.trim(),
+  gst_rate: productData.gst_rate,
+});
+
+// `isNew` also checks the opening stock, which only applies when the SKU is created
+const validateSKU = (skuData: SKUFormData, isNew: boolean) => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!(skuData.amount > 0)) {
+    fieldErrors.amount = "Amount must be more than zero";
+  }
+
+  if (!skuData.unit?.trim()) {
+    fieldErrors.unit = "Unit is required";
+  }
+
+  if (!(skuData.selling_price > 0)) {
+    fieldErrors.selling_price = "Selling price must be a positive number";
+  }
+
+  if (!(skuData.max_retail_price > 0)) {
+    fieldErrors.max_retail_price = "MRP must be a positive number";
+  } else if (!fieldErrors.selling_price && skuData.selling_price > skuData.max_retail_price) {
+    fieldErrors.selling_price = MRP_ERROR;
+  }
+
+  if (skuData.gst_rate != null && !GST_RATES.includes(skuData.gst_rate)) {
+    fieldErrors.gst_rate = "Choose a GST rate";
+  }
+
+  if (isNew && !(Number.isInteger(skuData.opening_stock) && skuData.opening_stock >= 0)) {
+    fieldErrors.opening_stock = "Enter a whole number of zero or more";
+  }
+
+  (["reorder_level", "reorder_quantity"] as const).forEach(field => {
+    const value = skuData[field] ?? 0;
+    if (!(Number.isInteger(value) && value >= 0)) {
+      fieldErrors[field] = "Enter a whole number of zero or more";
+    }
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+const toSKUFields = (skuData: SKUFormData) => ({
+  amount: skuData.amount,
+  unit: skuData.unit.trim(),
+  selling_price: skuData.selling_price,
+  max_retail_price: skuData.max_retail_price,
+  gst_rate: skuData.gst_rate ?? null,
+  reorder_level: skuData.reorder_level ?? 0,
+  reorder_quantity: skuData.reorder_quantity ?? 0,
+  is_retired: skuData.is_retired,
+});
+
+// Bumps the product's `updated_on` whenever it or one of its SKUs changes
+const touchProduct = async (productId: number): Promise<ProductRecord> => {
+  const product = await mockDb.get("products", productId);
+
+  if (!product) {
+    throw new NotFoundError("Product not found");
+  }
+
+  return { ...product, updated_on: new Date().toISOString() };
+};
+
+const DEFAULT_PAGE_SIZE = 10;
+
+const compareOrders = (a: SaleOrder, b: SaleOrder, field: SaleOrderSortField) => {
+  switch (field) {
+    case "customer_name":
+      return a.customer_name.localeCompare(b.customer_name);
+    case "last_modified":
+      return new Date(a.last_modified).getTime() - new Date(b.last_modified).getTime();
+    case "invoice_date":
+      return a.invoice_date.localeCompare(b.invoice_date);
+    default:
+      return a[field] - b[field];
+  }
+};
+
+const matchesQuery = (order: SaleOrder, query: SaleOrderQuery) => {
+  const search = query.search?.trim().toLowerCase();
+
+  return (
+    (!query.status || order.status === query.status) &&
+    (!query.payment_status || order.payment_status === query.payment_status) &&
+    (query.customer_id === undefined || order.customer_id === query.customer_id) &&
+    (!query.invoice_date_from || order.invoice_date >= query.invoice_date_from) &&
+    (!query.invoice_date_to || order.invoice_date <= query.invoice_date_to) &&
+    (query.min_price === undefined || order.total_price >= query.min_price) &&
+    (query.max_price === undefined || order.total_price <= query.max_price) &&
+    (!search ||
+      order.invoice_no.toLowerCase().includes(search) ||
+      order.customer_name.toLowerCase().includes(search))
+  );
+};
+
+// Line checks shared by orders and quotations, added to `fieldErrors`
+const addItemErrors = (items: SaleOrderFormData["items"], fieldErrors: Record<string, string>) => {
+  if (items.length === 0) {
+    fieldErrors.items = "At least one item is required";
+  }
+
+  items.forEach((item, index) => {
+    if (item.quantity < 1) {
+      fieldErrors[`items.${index}.quantity`] = "Quantity must be at least 1";
+    }
+    if (item.price < 0) {
+      fieldErrors[`items.${index}.price`] = "Price must be a positive number";
+    }
+  });
+};
+
+// Server-side checks mirroring the form schema
+const validateOrder = (orderData: SaleOrderFormData, existingOrder?: SaleOrder) => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!orderData.invoice_date) {
+    fieldErrors.invoice_date = "Invoice date is required";
+  } else if (existingOrder && orderData.invoice_date !== existingOrder.invoice_date) {
+    // The date is part of the invoice number, which never changes once issued
+    fieldErrors.invoice_date = `Can't change once ${existingOrder.invoice_no} has been issued`;
+  }
+
+  addItemErrors(orderData.items, fieldErrors);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+const validateQuotation = (quotationData: QuotationFormData) => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!quotationData.quote_date) {
+    fieldErrors.quote_date = "Quote date is required";
+  }
+
+  if (!quotationData.valid_until) {
+    fieldErrors.valid_until = "Validity date is required";
+  } else if (quotationData.quote_date && quotationData.valid_until < quotationData.quote_date) {
+    fieldErrors.valid_until = "Must be on or after the quote date";
+  }
+
+  addItemErrors(quotationData.items, fieldErrors);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+// Retired SKUs can't be added to orders; lines the order already had may stay
+const validateSKUsOnSale = (
+  orderData: Pick<SaleOrderFormData, "items">,
+  products: Product[],
+  reservedItems: SaleOrder["items"] = []
+) => {
+  const skus = products.flatMap(p => p.sku);
+  const fieldErrors: Record<string, string> = {};
+
+  orderData.items.forEach((item, index) => {
+    const sku = skus.find(s => s.id === item.sku_id);
+
+    if (sku && !isSKUOnSale(sku) && !reservedItems.some(reserved => reserved.sku_id === sku.id)) {
+      fieldErrors[`items.${index}.sku_id`] = "This SKU has been retired";
+    }
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Some items are no longer sold", fieldErrors);
+  }
+};
+
+// Rejects quantities above available stock unless the order allows backorders
+const validateStock = (
+  orderData: SaleOrderFormData,
+  products: Product[],
+  reservedItems: SaleOrder["items"] = []
+) => {
+  if (orderData.allow_backorder) return;
+
+  const skus = products.flatMap(p => p.sku);
+  const fieldErrors = getStockErrors(orderData.items, skus, reservedItems);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Not enough stock for some items", fieldErrors);
+  }
+};
+
+const nextMovementId = async () => {
+  const movements = await mockDb.getAll("stockMovements");
+  return Math.max(0, ...movements.map(movement => movement.id)) + 1;
+};
+
+// SKU records and ledger entries to write after moving an order's lines from
+// `previousItems` to `nextItems` (in a real application this would be done on the server)
+const adjustInventory = async (
+  products: Product[],
+  previousItems: SaleOrder["items"],
+  nextItems: SaleOrder["items"],
+  reason: StockMovementReason,
+  orderId: number
+): Promise<DbWrite[]> => {
+  const skus = products.flatMap(p => p.sku);
+  const writes: DbWrite[] = [];
+  const createdAt = new Date().toISOString();
+  let movementId = await nextMovementId();
+
+  getStockDeltas(previousItems, nextItems).forEach((delta, skuId) => {
+    const sku = skus.find(s => s.id === skuId);
+
+    if (sku) {
+      const balance = sku.quantity_in_inventory + delta;
+
+      writes.push(
+        { store: "skus", value: { ...sku, quantity_in_inventory: balance } },
+        {
+          store: "stockMovements",
+          value: {
+            id: movementId++,
+            sku_id: skuId,
+            quantity: delta,
+            balance_after: balance,
+            reason,
+            order_id: orderId,
+            note: "",
+            created_at: createdAt,
+          },
+        }
+      );
+    }
+  });
+
+  return writes;
+};
+
+// Snapshots the product name, GST rate and HSN code onto each line
+const toOrderItems = (items: SaleOrderFormData["items"], products: Product[]) =>
+  items.map(item => {
+    const product = products.find(p =>
+      p.sku.some(sku => sku.id === item.sku_id)
+    );
+    const sku = product?.sku.find(s => s.id === item.sku_id);
+
+    return {
+      sku_id: item.sku_id,
+      price: item.price,
+      quantity: item.quantity,
+      product_name: product?.name || "Unknown Product",
+      gst_rate: product && sku ? getSKUGstRate(product, sku) : 0,
+      hsn_code: product?.hsn_code || "",
+      sku_amount: sku?.amount,
+      sku_unit: sku?.unit
+    };
+  });
+
+// Taxable value, GST breakup, grand total and what is still owed for an order's
+// lines, along with the buyer details the invoice is issued to
+const orderTotals = (items: SaleOrder["items"], customer: Customer, payments: Payment[] = []) => {
+  const supplyType = getSupplyType(SELLER.state_code, getCustomerState(customer.customer_profile));
+  const tax = calculateTax(items, supplyType);
+  const grandTotal = getGrandTotal(tax);
+
+  return {
+    total_price: tax.taxable_value,
+    tax,
+    grand_total: grandTotal,
+    billing: getBillingParty(customer.customer_profile),
+    ...summarizePayments(grandTotal, payments)
+  };
+};
+
+// The quote an order is being converted from, if any. It must still be open and
+// the order must be for the quoted customer.
+const getQuotationToConvert = async (orderData: SaleOrderFormData) => {
+  if (!orderData.quotation_id) return undefined;
+
+  const quotation = await mockDb.get("quotations", orderData.quotation_id);
+
+  if (!quotation) {
+    throw new NotFoundError("Quotation not found");
+  }
+
+  if (!canConvertQuotation(quotation)) {
+    throw new ConflictError(
+      quotation.conversion
+        ? `${quotation.quote_no} has already been converted to ${quotation.conversion.invoice_no}`
+        : `${quotation.quote_no} has expired; revise it with a new validity date first`
+    );
+  }
+
+  if (quotation.customer_id !== orderData.customer_id) {
+    throw new ValidationError("Customer doesn't match the quotation", {
+      customer_id: `${quotation.quote_no} was quoted to ${quotation.customer_name}`,
+    });
+  }
+
+  return quotation;
+};
+
+const getOrderPayments = async (orderId: number) => {
+  const payments = await mockDb.getAll("payments");
+  return payments
+    .filter(payment => payment.order_id === orderId)
+    .sort((a, b) => a.payment_date.localeCompare(b.payment_date) || a.id - b.id);
+};
+
+const validatePayment = (paymentData: PaymentFormData, order: SaleOrder) => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!(paymentData.amount > 0)) {
+    fieldErrors.amount = "Amount must be more than zero";
+  } else if (Math.round(paymentData.amount * 100) > Math.round(order.balance_due * 100)) {
+    fieldErrors.amount = `Only ₹${order.balance_due.toFixed(2)} is due on this order`;
+  }
+
+  if (!paymentData.payment_date) {
+    fieldErrors.payment_date = "Payment date is required";
+  } else if (paymentData.payment_date > today()) {
+    fieldErrors.payment_date = "Payment date can't be in the future";
+  }
+
+  if (!(paymentData.mode in PAYMENT_MODE_LABELS)) {
+    fieldErrors.mode = "Choose a payment mode";
+  } else if (requiresPaymentReference(paymentData.mode) && !paymentData.reference?.trim()) {
+    fieldErrors.reference = "Reference is required for this payment mode";
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+const assertTransition = (order: SaleOrder, status: OrderStatus) => {
+  if (!canTransition(order.status, status)) {
+    throw new ConflictError(
+      `A ${ORDER_STATUS_LABELS[order.status].toLowerCase()} order can't be marked as ${ORDER_STATUS_LABELS[status].toLowerCase()}`
+    );
+  }
+};
+
+// The order moved to `status`, with the change added to its history
+const withStatus = (order: SaleOrder, status: OrderStatus, user: User): SaleOrder => {
+  const change = toStatusChange(status, user.username);
+
+  return {
+    ...order,
+    status,
+    status_history: [...order.status_history, change],
+    last_modified: change.changed_at,
+  };
+};
+
+const validateReturn = (
+  returnData: ReturnFormData,
+  order: SaleOrder,
+  creditNotes: CreditNote[]
+) => {
+  const returnable = getReturnableQuantities(order, creditNotes);
+  const fieldErrors: Record<string, string> = {};
+
+  returnData.items.forEach((item, index) => {
+    const available = returnable[item.line];
+
+    if (available === undefined) {
+      fieldErrors[`items.${index}.line`] = "This line isn't on the order";
+    } else if (returnData.items.findIndex(other => other.line === item.line) !== index) {
+      fieldErrors[`items.${index}.line`] = "This line is listed more than once";
+    } else if (!Number.isInteger(item.quantity) || item.quantity < 0) {
+      fieldErrors[`items.${index}.quantity`] = "Quantity must be a whole number";
+    } else if (item.quantity > available) {
+      fieldErrors[`items.${index}.quantity`] = `Only ${available} left to return`;
+    }
+  });
+
+  if (!returnData.items.some(item => item.quantity > 0)) {
+    fieldErrors.items = "Choose at least one item to return";
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+// Credit note against an order's invoice for the given lines, at the prices and
+// GST rates they were invoiced at
+const toCreditNote = (
+  order: SaleOrder,
+  items: CreditNoteItem[],
+  note: string,
+  creditNotes: CreditNote[],
+  user: User
+): CreditNote => {
+  const tax = calculateTax(items, order.tax.supply_type);
+  const createdAt = new Date().toISOString();
+  const creditNoteDate = today();
+
+  return {
+    id: Math.max(0, ...creditNotes.map(creditNote => creditNote.id)) + 1,
+    credit_note_no: nextDocumentNo(
+      "CN",
+      creditNotes.map(creditNote => creditNote.credit_note_no),
+      creditNoteDate
+    ),
+    credit_note_date: creditNoteDate,
+    order_id: order.id,
+    invoice_no: order.invoice_no,
+    invoice_date: order.invoice_date,
+    customer_id: order.customer_id,
+    customer_name: order.customer_name,
+    items,
+    total_price: tax.taxable_value,
+    tax,
+    grand_total: getGrandTotal(tax),
+    billing: order.billing,
+    note,
+    created_by: user.username,
+    created_at: createdAt,
+  };
+};
+
+// PREFIX-YYYYMMDD-NNN, numbered in sequence through the day. Counting on from
+// the highest number keeps older, hand-entered numbers from being reissued.
+const nextDocumentNo = (prefix: string, issued: string[], date: string) => {
+  const dayPrefix = `${prefix}-${date.replace(/-/g, "")}-`;
+  const last = Math.max(
+    0,
+    ...issued
+      .filter(number => number.startsWith(dayPrefix))
+      .map(number => Number(number.slice(dayPrefix.length)) || 0)
+  );
+
+  return `${dayPrefix}${String(last + 1).padStart(3, "0")}`;
+};
+
+const validateCancellation = (cancellationData: CancelSaleOrderData) => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!(cancellationData.reason in CANCELLATION_REASON_LABELS)) {
+    fieldErrors.reason = "Choose a reason for cancelling";
+  } else if (requiresCancellationNote(cancellationData.reason) && !cancellationData.note?.trim()) {
+    fieldErrors.note = "Explain why the order is being cancelled";
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+  }
+};
+
+export const mockApi: ApiClient = {
+  login: async (username: string, password: string): Promise<AuthToken> => {
+    await delay(500); // Simulate network delay
+
+    const account = mockUsers.find((user) => user.username === username);
+
+    if (!account || !(await verifyPassword(password, account))) {
+      throw new UnauthorizedError("Invalid credentials");
+    }
+
+    return issueToken(account);
+  },
+
+  refreshToken: async (): Promise<AuthToken> => {
+    await delay(200);
+
+    const claims = await verifyToken(authSession.getToken());
+    const account = mockUsers.find((user) => user.username === claims.sub);
+
+    if (!account || !canRefresh(claims)) {
+      throw new UnauthorizedError();
+    }
+
+    return issueToken(account, claims.auth_time);
+  },
+
+  getCustomers: async (): Promise<Customer[]> => {
+    await delay(500);
+    await requireUser();
+    return mockDb.getAll("customers");
+  },
+
+  createCustomer: async (customerData: CustomerFormData): Promise<Customer> => {
+    await delay(500);
+    await requireUser("customers:manage");
+
+    const customers = await mockDb.getAll("customers");
+    validateCustomer(customerData, customers);
+
+    // Orders refer to customers by profile id; the mock keeps `customer` in step with it
+    const profileId = Math.max(0, ...customers.map(c => c.customer_profile.id)) + 1;
+    const newCustomer: Customer = {
+      id: Math.max(0, ...customers.map(c => c.id)) + 1,
+      customer: profileId,
+      customer_profile: {
+        id: profileId,
+        profile_pic: null,
+        ...toCustomerProfile(customerData),
+      },
+      is_active: customerData.is_active,
+    };
+
+    await mockDb.commit([{ store: "customers", value: newCustomer }]);
+
+    return newCustomer;
+  },
+
+  updateCustomer: async (id: number, customerData: CustomerFormData): Promise<Customer> => {
+    await delay(500);
+    await requireUser("customers:manage");
+
+    const existingCustomer = await mockDb.get("customers", id);
+
+    if (!existingCustomer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    validateCustomer(customerData, await mockDb.getAll("customers"), id);
+
+    const updatedCustomer: Customer = {
+      ...existingCustomer,
+      customer_profile: {
+        ...existingCustomer.customer_profile,
+        ...toCustomerProfile(customerData),
+      },
+      is_active: customerData.is_active,
+    };
+
+    await mockDb.commit([{ store: "customers", value: updatedCustomer }]);
+
+    return updatedCustomer;
+  },
+
+  deleteCustomer: async (id: number): Promise<void> => {
+    await delay(500);
+    await requireUser("customers:delete");
+
+    const existingCustomer = await mockDb.get("customers", id);
+
+    if (!existingCustomer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    // Invoices and credit notes, cancelled ones included, still need their
+    // customer, so only customers who never ordered can go
+    const orders = await mockDb.getAll("saleOrders");
+    const customerOrders = orders.filter(
+      order => order.customer_id === existingCustomer.customer_profile.id
+    );
+
+    if (customerOrders.length > 0) {
+      throw new ConflictError(
+        `${existingCustomer.customer_profile.name} has ${customerOrders.length} order${
+          customerOrders.length === 1 ? "" : "s"
+        } on record. Deactivate the customer instead.`
+      );
+    }
+
+    await mockDb.commit([], [{ store: "customers", id }]);
+  },
+
+  getCustomerOrders: async (id: number): Promise<SaleOrder[]> => {
+    await delay(500);
+    await requireUser();
+
+    const customer = await mockDb.get("customers", id);
+
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    const orders = await mockDb.getAll("saleOrders");
+    return orders
+      .filter(order => order.customer_id === customer.customer_profile.id)
+      .sort((a, b) => b.invoice_date.localeCompare(a.invoice_date) || b.id - a.id);
+  },
+
+  getProducts: async (): Promise<Product[]> => {
+    await delay(500);
+    await requireUser();
+    return loadProducts();
+  },
+
+  createProduct: async (productData: ProductFormData): Promise<Product> => {
+    await delay(500);
+    await requireUser("products:manage");
+    validateProduct(productData);
+
+    const products = await mockDb.getAll("products");
+    const now = new Date().toISOString();
+    const newProduct: ProductRecord = {
+      id: Math.max(0, ...products.map(p => p.id)) + 1,
+      display_id: Math.max(0, ...products.map(p => p.display_id)) + 1,
+      owner: Math.max(0, ...products.map(p => p.owner)) + 1,
+      ...toProductFields(productData),
+      updated_on: now,
+      adding_date: now,
+    };
+
+    await mockDb.commit([{ store: "products", value: newProduct }]);
+
+    return { ...newProduct, sku: [] };
+  },
+
+  updateProduct: async (id: number, productData: ProductFormData): Promise<Product> => {
+    await delay(500);
+    await requireUser("products:manage");
+    validateProduct(productData);
+
+    const updatedProduct: ProductRecord = {
+      ...(await touchProduct(id)),
+      ...toProductFields(productData),
+    };
+
+    await mockDb.commit([{ store: "products", value: updatedProduct }]);
+
+    const skus = await mockDb.getAll("skus");
+    return { ...updatedProduct, sku: skus.filter(sku => sku.product === id) };
+  },
+
+  createSKU: async (productId: number, skuData: SKUFormData): Promise<SKU> => {
+    await delay(500);
+    await requireUser("products:manage");
+
+    const product = await touchProduct(productId);
+    validateSKU(skuData, true);
+
+    const skus = await mockDb.getAll("skus");
+    const newSku: SKU = {
+      id: Math.max(0, ...skus.map(s => s.id)) + 1,
+      product: productId,
+      quantity_in_inventory: skuData.opening_stock,
+      ...toSKUFields(skuData),
+    };
+
+    // The opening stock starts the SKU's ledger, like the seeded SKUs
+    await mockDb.commit([
+      { store: "products", value: product },
+      { store: "skus", value: newSku },
+      {
+        store: "stockMovements",
+        value: {
+          id: await nextMovementId(),
+          sku_id: newSku.id,
+          quantity: newSku.quantity_in_inventory,
+          balance_after: newSku.quantity_in_inventory,
+          reason: "goods_received",
+          order_id: null,
+          note: "Opening stock",
+          created_at: product.updated_on,
+        },
+      },
+    ]);
+
+    return newSku;
+  },
+
+  updateSKU: async (id: number, skuData: SKUFormData): Promise<SKU> => {
+    await delay(500);
+    await requireUser("products:manage");
+
+    const sku = await mockDb.get("skus", id);
+
+    if (!sku) {
+      throw new NotFoundError("SKU not found");
+    }
+
+    validateSKU(skuData, false);
+
+    // Stock on hand is left alone; it only moves through orders and adjustments
+    const updatedSku: SKU = { ...sku, ...toSKUFields(skuData) };
+
+    await mockDb.commit([
+      { store: "products", value: await touchProduct(sku.product) },
+      { store: "skus", value: updatedSku },
+    ]);
+
+    return updatedSku;
+  },
+
+  getSaleOrders: async (query: SaleOrderQuery): Promise<PaginatedResult<SaleOrder>> => {
+    await delay(500);
+    await requireUser();
+
+    const {
+      page = 1,
+      page_size = DEFAULT_PAGE_SIZE,
+      sort_by = "last_modified",
+      sort_order = "desc",
+    } = query;
+    const direction = sort_order === "asc" ? 1 : -1;
+
+    const orders = await mockDb.getAll("saleOrders");
+    const matching = orders
+      .filter((order) => matchesQuery(order, query))
+      .sort((a, b) => direction * compareOrders(a, b, sort_by) || b.id - a.id);
+
+    const start = (page - 1) * page_size;
+
+    return {
+      items: matching.slice(start, start + page_size),
+      total: matching.length,
+    };
+  },
+
+  getSaleOrder: async (id: number): Promise<SaleOrder> => {
+    await delay(300);
+    await requireUser();
+
+    const order = await mockDb.get("saleOrders", id);
+
+    if (!order) {
+      throw new NotFoundError("Order not found");
+    }
+
+    return order;
+  },
+
+  createSaleOrder: async (orderData: SaleOrderFormData): Promise<SaleOrder> => {
+    await delay(500);
+    const user = await requireUser(
+      "orders:create",
+      ...(orderData.allow_backorder ? ["orders:backorder" as const] : []),
+      ...(orderData.quotation_id ? ["quotations:manage" as const] : [])
+    );
+
+    const quotation = await getQuotationToConvert(orderData);
+    const customer = await findCustomer(orderData.customer_id);
+
+    if (!customer) {
+      throw new ValidationError("Customer not found", {
+        customer_id: "Customer not found",
+      });
+    }
+
+    if (!isCustomerActive(customer)) {
+      throw new ValidationError("Customer is deactivated", {
+        customer_id: "This customer has been deactivated",
+      });
+    }
+
+    const [orders, products] = await Promise.all([
+      mockDb.getAll("saleOrders"),
+      loadProducts(),
+    ]);
+
+    validateOrder(orderData);
+    validateSKUsOnSale(orderData, products);
+    validateStock(orderData, products);
+
+    const items = toOrderItems(orderData.items, products);
+    const createdAt = new Date().toISOString();
+
+    // Invoices are numbered by their invoice date, so the series has no gaps
+    const newOrder: SaleOrder = {
+      id: Math.max(0, ...orders.map(order => order.id)) + 1,
+      customer_id: orderData.customer_id,
+      customer_name: customer.customer_profile.name,
+      items,
+      invoice_no: nextDocumentNo(
+        "INV",
+        orders.map(order => order.invoice_no),
+        orderData.invoice_date
+      ),
+      invoice_date: orderData.invoice_date,
+      created_at: createdAt,
+      last_modified: createdAt,
+      ...orderTotals(items, customer),
+      status: "draft",
+      status_history: [toStatusChange("draft", user.username)],
+      ...(quotation && { quotation_id: quotation.id })
+    };
+
+    await mockDb.commit([
+      { store: "saleOrders", value: newOrder },
+      ...(await adjustInventory(products, [], newOrder.items, "sale", newOrder.id)),
+      ...(quotation
+        ? [
+            {
+              store: "quotations" as const,
+              value: {
+                ...quotation,
+                conversion: {
+                  order_id: newOrder.id,
+                  invoice_no: newOrder.invoice_no,
+                  converted_at: newOrder.created_at,
+                  converted_by: user.username,
+                },
+              },
+            },
+          ]
+        : []),
+    ]);
+
+    return newOrder;
+  },
+
+  updateSaleOrder: async (id: number, orderData: SaleOrderFormData): Promise<SaleOrder> => {
+    await delay(500);
+    const user = await requireUser(
+      "orders:edit",
+      ...(orderData.allow_backorder ? ["orders:backorder" as const] : [])
+    );
+
+    const existingOrder = await mockDb.get("saleOrders", id);
+
+    if (!existingOrder) {
+      throw new NotFoundError("Order not found");
+    }
+
+    // Fully paid orders are locked to everyone but admins
+    if (existingOrder.payment_status === "paid" && !hasPermission(user, "orders:edit_completed")) {
+      throw new ForbiddenError();
+    }
+
+    if (!isOrderEditable(existingOrder)) {
+      throw new ConflictError(
+        `${ORDER_STATUS_LABELS[existingOrder.status]} orders can't be edited`
+      );
+    }
+
+    const customer = await findCustomer(orderData.customer_id);
+
+    if (!customer) {
+      throw new ValidationError("Customer not found", {
+        customer_id: "Customer not found",
+      });
+    }
+
+    // Orders already placed keep their customer even after it is deactivated
+    if (customer.customer_profile.id !== existingOrder.customer_id && !isCustomerActive(customer)) {
+      throw new ValidationError("Customer is deactivated", {
+        customer_id: "This customer has been deactivated",
+      });
+    }
+
+    const [products, payments] = await Promise.all([loadProducts(), getOrderPayments(id)]);
+
+    validateOrder(orderData, existingOrder);
+    validateSKUsOnSale(orderData, products, existingOrder.items);
+    validateStock(orderData, products, existingOrder.items);
+
+    const items = toOrderItems(orderData.items, products);
+    const totals = orderTotals(items, customer, payments);
+
+    if (totals.grand_total < totals.amount_received) {
+      throw new ValidationError("Order total is less than the payments received", {
+        items: `₹${totals.amount_received.toFixed(2)} has already been received; the total can't go below it`,
+      });
+    }
+
+    // Update order
+    const updatedOrder: SaleOrder = {
+      ...existingOrder,
+      customer_id: orderData.customer_id,
+      customer_name: customer.customer_profile.name,
+      items,
+      invoice_date: orderData.invoice_date,
+      last_modified: new Date().toISOString(),
+      ...totals
+    };
+
+    // Only the difference between the old and new lines touches stock
+    await mockDb.commit([
+      { store: "saleOrders", value: updatedOrder },
+      ...(await adjustInventory(products, existingOrder.items, updatedOrder.items, "order_edit", id)),
+    ]);
+
+    return updatedOrder;
+  },
+
+  updateSaleOrderStatus: async (id: number, status: OrderStatus): Promise<SaleOrder> => {
+    await delay(500);
+    const user = await requireUser(getTransitionPermission(status));
+
+    // Cancellations and returns carry details of their own
+    if (status === "cancelled") {
+      throw new ValidationError("Cancelling an order needs a reason", {
+        status: "Cancel the order with a reason instead",
+      });
+    }
+
+    if (status === "returned") {
+      throw new ValidationError("Returns need the items being sent back", {
+        status: "Record a return against the order instead",
+      });
+    }
+
+    const existingOrder = await mockDb.get("saleOrders", id);
+
+    if (!existingOrder) {
+      throw new NotFoundError("Order not found");
+    }
+
+    assertTransition(existingOrder, status);
+
+    const updatedOrder = withStatus(existingOrder, status, user);
+
+    await mockDb.commit([{ store: "saleOrders", value: updatedOrder }]);
+
+    return updatedOrder;
+  },
+
+  cancelSaleOrder: async (id: number, cancellationData: CancelSaleOrderData): Promise<SaleOrder> => {
+    await delay(500);
+    const user = await requireUser("orders:cancel");
+
+    const existingOrder = await mockDb.get("saleOrders", id);
+
+    if (!existingOrder) {
+      throw new NotFoundError("Order not found");
+    }
+
+    assertTransition(existingOrder, "cancelled");
+    validateCancellation(cancellationData);
+
+    const note = cancellationData.note?.trim() || "";
+
+    // Once money has been taken the whole invoice is reversed with a credit note,
+    // and what was paid is left as credit on the customer's account
+    const creditNote =
+      existingOrder.amount_received > 0
+        ? toCreditNote(
+            existingOrder,
+            existingOrder.items.map((item, line) => ({ ...item, line })),
+            [`Order cancelled: ${CANCELLATION_REASON_LABELS[cancellationData.reason]}`, note]
+              .filter(Boolean)
+              .join(" · "),
+            await mockDb.getAll("creditNotes"),
+            user
+          )
+        : undefined;
+
+    const cancelled = withStatus(existingOrder, "cancelled", user);
+    const cancelledOrder: SaleOrder = {
+      ...cancelled,
+      cancellation: {
+        reason: cancellationData.reason,
+        note,
+        cancelled_at: cancelled.last_modified,
+        cancelled_by: user.username,
+        ...(creditNote && { credit_note_no: creditNote.credit_note_no }),
+      },
+    };
+
+    // The order and its invoice number stay; everything it held goes back into stock
+    await mockDb.commit([
+      { store: "saleOrders", value: cancelledOrder },
+      ...(creditNote ? [{ store: "creditNotes" as const, value: creditNote }] : []),
+      ...(await adjustInventory(await loadProducts(), existingOrder.items, [], "cancellation", id)),
+    ]);
+
+    return cancelledOrder;
+  },
+
+  getCreditNotes: async (query: CreditNoteQuery = {}): Promise<CreditNote[]> => {
+    await delay(300);
+    await requireUser();
+
+    const creditNotes = await mockDb.getAll("creditNotes");
+
+    return creditNotes
+      .filter(
+        note =>
+          (query.order_id === undefined || note.order_id === query.order_id) &&
+          (query.customer_id === undefined || note.customer_id === query.customer_id)
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id);
+  },
+
+  createReturn: async (orderId: number, returnData: ReturnFormData): Promise<CreditNote> => {
+    await delay(500);
+    const user = await requireUser("orders:return");
+
+    const existingOrder = await mockDb.get("saleOrders", orderId);
+
+    if (!existingOrder) {
+      throw new NotFoundError("Order not found");
+    }
+
+    if (!canReturnOrder(existingOrder)) {
+      throw new ConflictError(
+        `Only delivered orders can be returned; this one is ${ORDER_STATUS_LABELS[existingOrder.status].toLowerCase()}`
+      );
+    }
+
+    const [creditNotes, products] = await Promise.all([
+      mockDb.getAll("creditNotes"),
+      loadProducts(),
+    ]);
+    const orderCreditNotes = creditNotes.filter(note => note.order_id === orderId);
+
+    validateReturn(returnData, existingOrder, orderCreditNotes);
+
+    const items = returnData.items
+      .filter(item => item.quantity > 0)
+      .map(item => ({
+        ...existingOrder.items[item.line],
+        line: item.line,
+        quantity: item.quantity,
+      }));
+    const creditNote = toCreditNote(
+      existingOrder,
+      items,
+      returnData.note?.trim() || "",
+      creditNotes,
+      user
+    );
+
+    // The order is returned once every unit on it has come back
+    const fullyReturned = getReturnableQuantities(existingOrder, [
+      ...orderCreditNotes,
+      creditNote,
+    ]).every(quantity => quantity <= 0);
+    const updatedOrder: SaleOrder = fullyReturned
+      ? withStatus(existingOrder, "returned", user)
+      : { ...existingOrder, last_modified: creditNote.created_at };
+
+    await mockDb.commit([
+      { store: "creditNotes", value: creditNote },
+      { store: "saleOrders", value: updatedOrder },
+      ...(await adjustInventory(products, items, [], "return", orderId)),
+    ]);
+
+    return creditNote;
+  },
+
+  getQuotations: async (): Promise<Quotation[]> => {
+    await delay(500);
+    await requireUser();
+
+    const quotations = await mockDb.getAll("quotations");
+    return quotations.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id);
+  },
+
+  getQuotation: async (id: number): Promise<Quotation> => {
+    await delay(300);
+    await requireUser();
+
+    const quotation = await mockDb.get("quotations", id);
+
+    if (!quotation) {
+      throw new NotFoundError("Quotation not found");
+    }
+
+    return quotation;
+  },
+
+  createQuotation: async (quotationData: QuotationFormData): Promise<Quotation> => {
+    await delay(500);
+    const user = await requireUser("quotations:manage");
+
+    const customer = await findCustomer(quotationData.customer_id);
+
+    if (!customer) {
+      throw new ValidationError("Customer not found", {
+        customer_id: "Customer not found",
+      });
+    }
+
+    if (!isCustomerActive(customer)) {
+      throw new ValidationError("Customer is deactivated", {
+        customer_id: "This customer has been deactivated",
+      });
+    }
+
+    const [quotations, products] = await Promise.all([
+      mockDb.getAll("quotations"),
+      loadProducts(),
+    ]);
+
+    validateQuotation(quotationData);
+    validateSKUsOnSale(quotationData, products);
+
+    const items = toOrderItems(quotationData.items, products);
+    const { total_price, tax, grand_total, billing } = orderTotals(items, customer);
+    const createdAt = new Date().toISOString();
+
+    const newQuotation: Quotation = {
+      id: Math.max(0, ...quotations.map(quotation => quotation.id)) + 1,
+      quote_no: nextDocumentNo(
+        "QT",
+        quotations.map(quotation => quotation.quote_no),
+        quotationData.quote_date
+      ),
+      version: 1,
+      customer_id: quotationData.customer_id,
+      customer_name: customer.customer_profile.name,
+      quote_date: quotationData.quote_date,
+      valid_until: quotationData.valid_until,
+      items,
+      total_price,
+      tax,
+      grand_total,
+      billing,
+      notes: quotationData.notes?.trim() || "",
+      created_by: user.username,
+      created_at: createdAt,
+      last_modified: createdAt,
+    };
+
+    await mockDb.commit([{ store: "quotations", value: newQuotation }]);
+
+    return newQuotation;
+  },
+
+  updateQuotation: async (id: number, quotationData: QuotationFormData): Promise<Quotation> => {
+    await delay(500);
+    await requireUser("quotations:manage");
+
+    const existingQuotation = await mockDb.get("quotations", id);
+
+    if (!existingQuotation) {
+      throw new NotFoundError("Quotation not found");
+    }
+
+    if (!isQuotationEditable(existingQuotation)) {
+      throw new ConflictError(
+        `${existingQuotation.quote_no} has been converted to ${existingQuotation.conversion.invoice_no} and can't be revised`
+      );
+    }
+
+    const customer = await findCustomer(quotationData.customer_id);
+
+    if (!customer) {
+      throw new ValidationError("Customer not found", {
+        customer_id: "Customer not found",
+      });
+    }
+
+    // Quotes keep their customer even after it is deactivated
+    if (customer.customer_profile.id !== existingQuotation.customer_id && !isCustomerActive(customer)) {
+      throw new ValidationError("Customer is deactivated", {
+        customer_id: "This customer has been deactivated",
+      });
+    }
+
+    const products = await loadProducts();
+
+    validateQuotation(quotationData);
+    validateSKUsOnSale(quotationData, products, existingQuotation.items);
+
+    const items = toOrderItems(quotationData.items, products);
+    const { total_price, tax, grand_total, billing } = orderTotals(items, customer);
+
+    // The version being replaced is kept so what the customer was sent can be reprinted
+    const revision: QuotationRevision = {
+      version: existingQuotation.version,
+      customer_id: existingQuotation.customer_id,
+      customer_name: existingQuotation.customer_name,
+      quote_date: existingQuotation.quote_date,
+      valid_until: existingQuotation.valid_until,
+      items: existingQuotation.items,
+      total_price: existingQuotation.total_price,
+      tax: existingQuotation.tax,
+      grand_total: existingQuotation.grand_total,
+      billing: existingQuotation.billing,
+      notes: existingQuotation.notes,
+      last_modified: existingQuotation.last_modified,
+    };
+
+    const updatedQuotation: Quotation = {
+      ...existingQuotation,
+      version: existingQuotation.version + 1,
+      customer_id: quotationData.customer_id,
+      customer_name: customer.customer_profile.name,
+      quote_date: quotationData.quote_date,
+      valid_until: quotationData.valid_until,
+      items,
+      total_price,
+      tax,
+      grand_total,
+      billing,
+      notes: quotationData.notes?.trim() || "",
+      last_modified: new Date().toISOString(),
+      revisions: [...(existingQuotation.revisions || []), revision],
+    };
+
+    await mockDb.commit([{ store: "quotations", value: updatedQuotation }]);
+
+    return updatedQuotation;
+  },
+
+  getPayments: async (orderId: number): Promise<Payment[]> => {
+    await delay(300);
+    await requireUser();
+
+    if (!(await mockDb.get("saleOrders", orderId))) {
+      throw new NotFoundError("Order not found");
+    }
+
+    return getOrderPayments(orderId);
+  },
+
+  recordPayment: async (orderId: number, paymentData: PaymentFormData): Promise<Payment> => {
+    await delay(500);
+    const user = await requireUser("payments:record");
+
+    const existingOrder = await mockDb.get("saleOrders", orderId);
+
+    if (!existingOrder) {
+      throw new NotFoundError("Order not found");
+    }
+
+    if (isOrderVoid(existingOrder)) {
+      throw new ConflictError(
+        `${ORDER_STATUS_LABELS[existingOrder.status]} orders can't take payments`
+      );
+    }
+
+    validatePayment(paymentData, existingOrder);
+
+    const allPayments = await mockDb.getAll("payments");
+    const payment: Payment = {
+      id: Math.max(0, ...allPayments.map(p => p.id)) + 1,
+      order_id: orderId,
+      amount: paymentData.amount,
+      payment_date: paymentData.payment_date,
+      mode: paymentData.mode,
+      reference: paymentData.reference?.trim() || "",
+      recorded_by: user.username,
+      created_at: new Date().toISOString(),
+    };
+
+    const updatedOrder: SaleOrder = {
+      ...existingOrder,
+      last_modified: payment.created_at,
+      ...summarizePayments(existingOrder.grand_total, [
+        ...allPayments.filter(p => p.order_id === orderId),
+        payment,
+      ]),
+    };
+
+    await mockDb.commit([
+      { store: "payments", value: payment },
+      { store: "saleOrders", value: updatedOrder },
+    ]);
+
+    return payment;
+  },
+
+  deletePayment: async (orderId: number, paymentId: number): Promise<void> => {
+    await delay(500);
+    await requireUser("payments:delete");
+
+    const [existingOrder, payment] = await Promise.all([
+      mockDb.get("saleOrders", orderId),
+      mockDb.get("payments", paymentId),
+    ]);
+
+    if (!existingOrder || !payment || payment.order_id !== orderId) {
+      throw new NotFoundError("Payment not found");
+    }
+
+    if (isOrderVoid(existingOrder)) {
+      throw new ConflictError(
+        `${ORDER_STATUS_LABELS[existingOrder.status]} orders can't have payments removed`
+      );
+    }
+
+    // Credit notes were issued against the amount received, so it has to stay as it is
+    const creditNotes = await mockDb.getAll("creditNotes");
+
+    if (creditNotes.some(creditNote => creditNote.order_id === orderId)) {
+      throw new ConflictError(
+        `${existingOrder.invoice_no} has credit notes against it, so its payments can't be removed`
+      );
+    }
+
+    const remaining = (await getOrderPayments(orderId)).filter(p => p.id !== paymentId);
+    const updatedOrder: SaleOrder = {
+      ...existingOrder,
+      last_modified: new Date().toISOString(),
+      ...summarizePayments(existingOrder.grand_total, remaining),
+    };
+
+    await mockDb.commit(
+      [{ store: "saleOrders", value: updatedOrder }],
+      [{ store: "payments", id: paymentId }]
+    );
+  },
+
+  getStockMovements: async (skuId: number): Promise<StockMovement[]> => {
+    await delay(500);
+    await requireUser();
+    const movements = await mockDb.getAll("stockMovements");
+    return movements
+      .filter(movement => movement.sku_id === skuId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+  },
+
+  adjustStock: async (adjustment: StockAdjustmentData): Promise<SKU> => {
+    await delay(500);
+    await requireUser("inventory:adjust");
+
+    const sku = await mockDb.get("skus", adjustment.sku_id);
+
+    if (!sku) {
+      throw new NotFoundError("SKU not found");
+    }
+
+    const fieldErrors: Record<string, string> = {};
+
+    if (!Number.isInteger(adjustment.quantity) || adjustment.quantity === 0) {
+      fieldErrors.quantity = "Enter a non-zero whole number";
+    } else if (adjustment.reason === "goods_received" && adjustment.quantity < 0) {
+      fieldErrors.quantity = "Goods received must be a positive quantity";
+    } else if (sku.quantity_in_inventory + adjustment.quantity < 0) {
+      fieldErrors.quantity = `Only ${sku.quantity_in_inventory} in stock`;
+    }
+
+    if (adjustment.reason === "manual_adjustment" && !adjustment.note.trim()) {
+      fieldErrors.note = "Explain why stock is being adjusted";
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError("Please correct the highlighted fields", fieldErrors);
+    }
+
+    const updatedSku: SKU = {
+      ...sku,
+      quantity_in_inventory: sku.quantity_in_inventory + adjustment.quantity,
+    };
+
+    await mockDb.commit([
+      { store: "skus", value: updatedSku },
+      {
+        store: "stockMovements",
+        value: {
+          id: await nextMovementId(),
+          sku_id: sku.id,
+          quantity: adjustment.quantity,
+          balance_after: updatedSku.quantity_in_inventory,
+          reason: adjustment.reason,
+          order_id: null,
+          note: adjustment.note.trim(),
+          created_at: new Date().toISOString(),
+        },
+      },
+    ]);
+
+    return updatedSku;
+  },
+
+  resetDemoData: async (): Promise<void> => {
+    await delay(500);
+    await requireUser("demo:reset");
+    await mockDb.reset();
+  }
+};
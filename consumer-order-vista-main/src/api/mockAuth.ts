@@ -0,0 +1,99 @@
+import { AuthToken, TokenClaims, UserAccount } from "../types";
+import { base64UrlDecode, base64UrlEncode, decodeTokenClaims, encodeJson, isTokenExpired } from "../lib/token";
+import { UnauthorizedError } from "./errors";
+
+// Stand-ins for server configuration. A real backend keeps the signing key secret.
+const TOKEN_SIGNING_KEY = "consumer-order-vista-demo-signing-key";
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// Refreshing can extend a session up to this long after login
+const MAX_SESSION_SECONDS = 12 * 60 * 60;
+const PBKDF2_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Compares every character so the time taken doesn't reveal how much matched
+const safeEqual = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string, salt: string) => {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+
+  return toHex(bits);
+};
+
+export const verifyPassword = async (password: string, account: UserAccount) =>
+  safeEqual(await hashPassword(password, account.password_salt), account.password_hash);
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+const getSigningKey = () => {
+  signingKey ??= crypto.subtle.importKey(
+    "raw",
+    encoder.encode(TOKEN_SIGNING_KEY),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+  return signingKey;
+};
+
+// HS256 JWT carrying the user's name and role. Pass `authTime` when
+// refreshing so the session keeps its original login time.
+export const issueToken = async (account: UserAccount, authTime?: number): Promise<AuthToken> => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const sessionStart = authTime ?? issuedAt;
+  const claims: TokenClaims = {
+    sub: account.username,
+    role: account.role,
+    iat: issuedAt,
+    exp: Math.min(issuedAt + ACCESS_TOKEN_TTL_SECONDS, sessionStart + MAX_SESSION_SECONDS),
+    auth_time: sessionStart,
+  };
+  const unsigned = `${encodeJson({ alg: "HS256", typ: "JWT" })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(unsigned));
+
+  return {
+    access_token: `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`,
+    token_type: "Bearer",
+    expires_at: new Date(claims.exp * 1000).toISOString(),
+  };
+};
+
+// Checks the signature and expiry, returning the token's claims
+export const verifyToken = async (token: string | null): Promise<TokenClaims> => {
+  const [header, payload, signature] = token?.split(".") || [];
+  const claims = token && decodeTokenClaims(token);
+
+  if (!claims || !signature) {
+    throw new UnauthorizedError("Please log in to continue");
+  }
+
+  const valid = await crypto.subtle
+    .verify("HMAC", await getSigningKey(), base64UrlDecode(signature), encoder.encode(`${header}.${payload}`))
+    .catch(() => false);
+
+  if (!valid || isTokenExpired(claims)) {
+    throw new UnauthorizedError();
+  }
+
+  return claims;
+};
+
+// False once tokens have reached the session's maximum lifetime
+export const canRefresh = (claims: TokenClaims) =>
+  claims.exp < claims.auth_time + MAX_SESSION_SECONDS;
@@ -0,0 +1,521 @@
+import {
+  CreditNote,
+  Customer,
+  OrderItem,
+  Payment,
+  Product,
+  Quotation,
+  SaleOrder,
+  SKU,
+  StockMovement,
+} from "../types";
+import { mockCustomers, mockPayments, mockProducts, mockSaleOrders } from "../mockData";
+import {
+  calculateTax,
+  getBillingParty,
+  getCustomerState,
+  getGrandTotal,
+  getSKUGstRate,
+  getSupplyType,
+} from "../lib/gst";
+import { validateGstin } from "../lib/gstin";
+import { summarizePayments } from "../lib/payments";
+import { SELLER } from "../lib/seller";
+
+// Products are stored without their SKUs; SKUs live in their own store and are
+// joined back onto the product when read.
+export type ProductRecord = Omit<Product, "sku">;
+
+export interface MockDbSchema {
+  customers: Customer;
+  products: ProductRecord;
+  skus: SKU;
+  saleOrders: SaleOrder;
+  stockMovements: StockMovement;
+  payments: Payment;
+  creditNotes: CreditNote;
+  quotations: Quotation;
+}
+
+export type StoreName = keyof MockDbSchema;
+
+export type DbWrite = {
+  [K in StoreName]: { store: K; value: MockDbSchema[K] };
+}[StoreName];
+
+const DB_NAME = "consumer-order-vista";
+const DB_VERSION = 10;
+const META_STORE = "meta";
+const SEEDED_KEY = "seeded";
+
+const STORE_NAMES: StoreName[] = [
+  "customers",
+  "products",
+  "skus",
+  "saleOrders",
+  "stockMovements",
+  "payments",
+  "creditNotes",
+  "quotations",
+];
+
+// The ledger starts from each SKU's stock at the time it was first tracked
+const openingMovements = (skus: SKU[], createdAt: string): StockMovement[] =>
+  skus.map((sku, index) => ({
+    id: index + 1,
+    sku_id: sku.id,
+    quantity: sku.quantity_in_inventory,
+    balance_after: sku.quantity_in_inventory,
+    reason: "goods_received",
+    order_id: null,
+    note: "Opening stock",
+    created_at: createdAt,
+  }));
+
+const buildSeed = (): { [K in StoreName]: MockDbSchema[K][] } => {
+  const products = structuredClone(mockProducts);
+  const skus = products.flatMap((product) => product.sku);
+
+  return {
+    customers: structuredClone(mockCustomers),
+    products: products.map(({ sku, ...product }) => product),
+    skus,
+    saleOrders: structuredClone(mockSaleOrders),
+    stockMovements: openingMovements(skus, products[0]?.adding_date || new Date().toISOString()),
+    payments: structuredClone(mockPayments),
+    creditNotes: [],
+    quotations: [],
+  };
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const readAll = <K extends StoreName>(tx: IDBTransaction, store: K) =>
+  promisify<MockDbSchema[K][]>(tx.objectStore(store).getAll());
+
+// Orders saved before GST was introduced: rate each line and total the tax the
+// way the API does on save
+const withGst = (
+  order: SaleOrder,
+  products: ProductRecord[],
+  skus: SKU[],
+  customers: Customer[]
+): SaleOrder => {
+  const customer = customers.find((c) => c.customer_profile.id === order.customer_id);
+  const items = order.items.map((item) => {
+    const sku = skus.find((s) => s.id === item.sku_id);
+    const product = sku && products.find((p) => p.id === sku.product);
+    return { ...item, gst_rate: product && sku ? getSKUGstRate(product, sku) : 0 };
+  });
+  const tax = calculateTax(
+    items,
+    getSupplyType(SELLER.state_code, customer && getCustomerState(customer.customer_profile))
+  );
+
+  return { ...order, items, tax, grand_total: getGrandTotal(tax) };
+};
+
+// Brings a database written by an older version of the app up to date. Steps
+// await their reads, so each one sees what the steps before it wrote.
+const migrate = async (tx: IDBTransaction, oldVersion: number) => {
+  // v2 added the stock ledger: open it with the stock already on hand
+  if (oldVersion < 2) {
+    const ledger = tx.objectStore("stockMovements");
+    openingMovements(await readAll(tx, "skus"), new Date().toISOString()).forEach((movement) =>
+      ledger.put(movement)
+    );
+  }
+
+  // v3 replaced the `paid` flag with payment records: settle paid orders with one payment
+  if (oldVersion < 3) {
+    const orders = (await readAll(tx, "saleOrders")) as (SaleOrder & { paid?: boolean })[];
+    const orderStore = tx.objectStore("saleOrders");
+    const paymentStore = tx.objectStore("payments");
+    let paymentId = 1;
+
+    orders.forEach(({ paid, ...order }) => {
+      const orderPayments: Payment[] = paid
+        ? [
+            {
+              id: paymentId++,
+              order_id: order.id,
+              amount: order.grand_total,
+              payment_date: order.last_modified.slice(0, 10),
+              mode: "cash",
+              reference: "",
+              recorded_by: "",
+              created_at: order.last_modified,
+            },
+          ]
+        : [];
+
+      orderPayments.forEach((payment) => paymentStore.put(payment));
+      orderStore.put({ ...order, ...summarizePayments(order.grand_total, orderPayments) });
+    });
+  }
+
+  // v4 added the order lifecycle: existing orders count as confirmed when placed
+  if (oldVersion < 4) {
+    const orderStore = tx.objectStore("saleOrders");
+    (await readAll(tx, "saleOrders")).forEach((order) =>
+      orderStore.put({
+        ...order,
+        status: "confirmed",
+        status_history: [{ status: "confirmed", changed_at: order.created_at, changed_by: "" }],
+      })
+    );
+  }
+
+  // v7 catches up on GST, which shipped without a version bump: seeded products
+  // get their rates, and seeded customers still on placeholder GSTINs get the
+  // registered GSTIN and pincode their place of supply now comes from
+  if (oldVersion < 7) {
+    const productStore = tx.objectStore("products");
+    (await readAll(tx, "products")).forEach((product) => {
+      if (product.gst_rate !== undefined) return;
+      const seeded = mockProducts.find((p) => p.id === product.id);
+      productStore.put({ ...product, gst_rate: seeded?.gst_rate ?? 0 });
+    });
+
+    const customerStore = tx.objectStore("customers");
+    (await readAll(tx, "customers")).forEach((customer) => {
+      const { gst, id } = customer.customer_profile;
+      const seeded = mockCustomers.find((c) => c.customer_profile.id === id);
+      if (!seeded || !gst || !validateGstin(gst)) return;
+
+      const { pincode, type } = seeded.customer_profile;
+      customerStore.put({
+        ...customer,
+        customer_profile: { ...customer.customer_profile, gst: seeded.customer_profile.gst, pincode, type },
+      });
+    });
+
+    // Orders from before GST have no tax, so v3 settled them with payments of
+    // no amount and their balances came out as NaN
+    const [orders, products, skus, customers, payments] = await Promise.all([
+      readAll(tx, "saleOrders"),
+      readAll(tx, "products"),
+      readAll(tx, "skus"),
+      readAll(tx, "customers"),
+      readAll(tx, "payments"),
+    ]);
+    const orderStore = tx.objectStore("saleOrders");
+    const paymentStore = tx.objectStore("payments");
+
+    orders
+      .filter((order) => !order.tax)
+      .forEach((stored) => {
+        const order = withGst(stored, products, skus, customers);
+        const orderPayments = payments
+          .filter((payment) => payment.order_id === order.id)
+          .map((payment) =>
+            Number.isFinite(payment.amount) ? payment : { ...payment, amount: order.grand_total }
+          );
+
+        orderPayments.forEach((payment) => paymentStore.put(payment));
+        orderStore.put({ ...order, ...summarizePayments(order.grand_total, orderPayments) });
+      });
+  }
+
+  // v8 saves the buyer, place of supply and HSN codes on each document when it
+  // is issued; earlier ones take them from the records as they stand now
+  if (oldVersion < 8) {
+    const productStore = tx.objectStore("products");
+    (await readAll(tx, "products")).forEach((product) => {
+      if (product.hsn_code !== undefined) return;
+      const seeded = mockProducts.find((p) => p.id === product.id);
+      productStore.put({ ...product, hsn_code: seeded?.hsn_code || "" });
+    });
+
+    const [products, skus, customers, orders, creditNotes, quotations] = await Promise.all([
+      readAll(tx, "products"),
+      readAll(tx, "skus"),
+      readAll(tx, "customers"),
+      readAll(tx, "saleOrders"),
+      readAll(tx, "creditNotes"),
+      readAll(tx, "quotations"),
+    ]);
+
+    const withHsn = (items: OrderItem[]) =>
+      items.map((item) => {
+        const sku = skus.find((s) => s.id === item.sku_id);
+        const product = sku && products.find((p) => p.id === sku.product);
+        return { ...item, hsn_code: item.hsn_code ?? (product?.hsn_code || "") };
+      });
+
+    // A deleted customer leaves only the name the document was saved with
+    const billingFor = (document: Pick<SaleOrder, "customer_id" | "customer_name">) =>
+      getBillingParty(
+        customers.find((c) => c.customer_profile.id === document.customer_id)?.customer_profile || {
+          name: document.customer_name,
+          location_name: "",
+          pincode: "",
+          email: "",
+          gst: "",
+        }
+      );
+
+    const orderStore = tx.objectStore("saleOrders");
+    const billedOrders = orders.map((order) => ({
+      ...order,
+      items: withHsn(order.items),
+      billing: order.billing || billingFor(order),
+    }));
+    billedOrders.forEach((order) => orderStore.put(order));
+
+    // Credit notes bill whoever the invoice they reverse was issued to
+    const creditNoteStore = tx.objectStore("creditNotes");
+    creditNotes.forEach((creditNote) =>
+      creditNoteStore.put({
+        ...creditNote,
+        items: withHsn(creditNote.items),
+        billing:
+          creditNote.billing ||
+          billedOrders.find((order) => order.id === creditNote.order_id)?.billing ||
+          billingFor(creditNote),
+      })
+    );
+
+    const quotationStore = tx.objectStore("quotations");
+    quotations.forEach((quotation) =>
+      quotationStore.put({
+        ...quotation,
+        items: withHsn(quotation.items),
+        billing: quotation.billing || billingFor(quotation),
+      })
+    );
+  }
+
+  // v9 credits returns against an order line rather than a SKU: earlier credit
+  // notes take the first line of their SKU that still had enough left to return
+  if (oldVersion < 9) {
+    const [orders, creditNotes] = await Promise.all([
+      readAll(tx, "saleOrders"),
+      readAll(tx, "creditNotes"),
+    ]);
+    const creditNoteStore = tx.objectStore("creditNotes");
+    const remaining = new Map(orders.map((order) => [order.id, order.items.map((item) => item.quantity)]));
+
+    creditNotes
+      .sort((a, b) => a.id - b.id)
+      .forEach((creditNote) => {
+        const orderItems = orders.find((order) => order.id === creditNote.order_id)?.items || [];
+        const left = remaining.get(creditNote.order_id) || [];
+
+        const items = creditNote.items.map((item) => {
+          if (item.line !== undefined) return item;
+
+          const matches = orderItems
+            .map((orderItem, line) => ({ orderItem, line }))
+            .filter(({ orderItem }) => orderItem.sku_id === item.sku_id);
+          const line = (matches.find(({ line }) => left[line] >= item.quantity) || matches[0])?.line ?? 0;
+          left[line] -= item.quantity;
+
+          return { ...item, line };
+        });
+
+        creditNoteStore.put({ ...creditNote, items });
+      });
+  }
+
+  // v10 keeps each line's pack size so printed documents don't follow SKU edits;
+  // earlier lines take the SKU as it is now, or stay without one if it's gone
+  if (oldVersion < 10) {
+    const [skus, orders, creditNotes, quotations] = await Promise.all([
+      readAll(tx, "skus"),
+      readAll(tx, "saleOrders"),
+      readAll(tx, "creditNotes"),
+      readAll(tx, "quotations"),
+    ]);
+
+    const withPackSize = <T extends OrderItem>(items: T[]) =>
+      items.map((item) => {
+        if (item.sku_unit !== undefined) return item;
+        const sku = skus.find((s) => s.id === item.sku_id);
+        return sku ? { ...item, sku_amount: sku.amount, sku_unit: sku.unit } : item;
+      });
+
+    const orderStore = tx.objectStore("saleOrders");
+    orders.forEach((order) => orderStore.put({ ...order, items: withPackSize(order.items) }));
+
+    const creditNoteStore = tx.objectStore("creditNotes");
+    creditNotes.forEach((creditNote) =>
+      creditNoteStore.put({ ...creditNote, items: withPackSize(creditNote.items) })
+    );
+
+    const quotationStore = tx.objectStore("quotations");
+    quotations.forEach((quotation) =>
+      quotationStore.put({
+        ...quotation,
+        items: withPackSize(quotation.items),
+        ...(quotation.revisions && {
+          revisions: quotation.revisions.map((revision) => ({
+            ...revision,
+            items: withPackSize(revision.items),
+          })),
+        }),
+      })
+    );
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+
+      [...STORE_NAMES, META_STORE].forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, name === META_STORE ? undefined : { keyPath: "id" });
+        }
+      });
+
+      if (event.oldVersion >= 1) {
+        const tx = request.transaction;
+        // A failed step aborts the upgrade, which rejects the open below
+        migrate(tx, event.oldVersion).catch(() => tx.abort());
+      }
+    };
+
+    // Another tab still has the old version open and hasn't let go of it
+    request.onblocked = () =>
+      reject(new Error("The app was updated in another tab. Close the other tabs and reload this one."));
+
+    request.onsuccess = () => {
+      const db = request.result;
+
+      // Step aside when another tab upgrades the schema so its upgrade isn't
+      // blocked; the next call here reopens at the new version
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  }).then(async (db) => {
+    const tx = db.transaction(META_STORE, "readonly");
+    const seeded = await promisify(tx.objectStore(META_STORE).get(SEEDED_KEY));
+
+    if (!seeded) {
+      await writeSeed(db);
+    }
+
+    return db;
+  });
+
+  // Let a later call retry if opening failed (e.g. blocked by another tab)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const writeSeed = (db: IDBDatabase) => {
+  const tx = db.transaction([...STORE_NAMES, META_STORE], "readwrite");
+  const seed = buildSeed();
+
+  STORE_NAMES.forEach((name) => {
+    const store = tx.objectStore(name);
+    store.clear();
+    (seed[name] as object[]).forEach((value) => store.put(value));
+  });
+  tx.objectStore(META_STORE).put(new Date().toISOString(), SEEDED_KEY);
+
+  return transactionDone(tx);
+};
+
+// In-memory fallback for environments without IndexedDB (private windows in
+// some browsers, SSR, tests). Data then only lives until the page reloads.
+let memoryDb: { [K in StoreName]: Map<number, MockDbSchema[K]> } | null = null;
+
+const getMemoryDb = () => {
+  if (!memoryDb) {
+    const seed = buildSeed();
+    memoryDb = Object.fromEntries(
+      STORE_NAMES.map((name) => [
+        name,
+        new Map((seed[name] as { id: number }[]).map((value) => [value.id, value])),
+      ])
+    ) as typeof memoryDb;
+  }
+
+  return memoryDb;
+};
+
+const hasIndexedDb = () => typeof indexedDB !== "undefined";
+
+export const mockDb = {
+  getAll: async <K extends StoreName>(store: K): Promise<MockDbSchema[K][]> => {
+    if (!hasIndexedDb()) {
+      return structuredClone([...getMemoryDb()[store].values()]) as MockDbSchema[K][];
+    }
+
+    const db = await openDb();
+    return promisify(db.transaction(store, "readonly").objectStore(store).getAll());
+  },
+
+  get: async <K extends StoreName>(store: K, id: number): Promise<MockDbSchema[K] | undefined> => {
+    if (!hasIndexedDb()) {
+      const value = getMemoryDb()[store].get(id);
+      return value ? (structuredClone(value) as MockDbSchema[K]) : undefined;
+    }
+
+    const db = await openDb();
+    return promisify(db.transaction(store, "readonly").objectStore(store).get(id));
+  },
+
+  // Applies every write in a single transaction so related records (an order
+  // and the SKUs whose stock it changes) are saved together or not at all.
+  commit: async (writes: DbWrite[], deletes: { store: StoreName; id: number }[] = []): Promise<void> => {
+    if (!hasIndexedDb()) {
+      const db = getMemoryDb();
+      writes.forEach(({ store, value }) => {
+        (db[store] as Map<number, object>).set(value.id, structuredClone(value));
+      });
+      deletes.forEach(({ store, id }) => db[store].delete(id));
+      return;
+    }
+
+    const db = await openDb();
+    const storeNames = [...new Set([...writes, ...deletes].map(({ store }) => store))];
+
+    if (storeNames.length === 0) return;
+
+    const tx = db.transaction(storeNames, "readwrite");
+    writes.forEach(({ store, value }) => tx.objectStore(store).put(value));
+    deletes.forEach(({ store, id }) => tx.objectStore(store).delete(id));
+
+    return transactionDone(tx);
+  },
+
+  // Wipes everything and re-seeds from src/mockData
+  reset: async (): Promise<void> => {
+    if (!hasIndexedDb()) {
+      memoryDb = null;
+      return;
+    }
+
+    const db = await openDb();
+    await writeSeed(db);
+  },
+};
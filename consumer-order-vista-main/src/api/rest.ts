@@ -0,0 +1,269 @@
+import {
+  AuthToken,
+  CancelSaleOrderData,
+  CreditNote,
+  CreditNoteQuery,
+  Customer,
+  CustomerFormData,
+  OrderStatus,
+  PaginatedResult,
+  Payment,
+  PaymentFormData,
+  Product,
+  ProductFormData,
+  Quotation,
+  QuotationFormData,
+  ReturnFormData,
+  SaleOrder,
+  SaleOrderFormData,
+  SaleOrderQuery,
+  SKU,
+  SKUFormData,
+  StockAdjustmentData,
+  StockMovement
+} from "../types";
+import { ApiClient } from "./client";
+import {
+  ApiError,
+  ConflictError,
+  FieldErrors,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from "./errors";
+import { authSession } from "./session";
+
+interface ErrorBody {
+  message?: string;
+  detail?: string;
+  errors?: Record<string, string | string[]>;
+}
+
+// Accepts both `{ field: "msg" }` and `{ field: ["msg", ...] }` error payloads
+const toFieldErrors = (errors: ErrorBody["errors"]): FieldErrors =>
+  Object.fromEntries(
+    Object.entries(errors || {}).map(([field, messages]) => [
+      field,
+      Array.isArray(messages) ? messages.join(" ") : messages,
+    ])
+  );
+
+// Serialises a query object, skipping unset and empty values
+const toSearchParams = (query: object) => {
+  const params = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+
+  return params.toString();
+};
+
+const toApiError = (status: number, body: ErrorBody | null): ApiError => {
+  const message = body?.message || body?.detail;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, toFieldErrors(body?.errors));
+    case 401:
+      return new UnauthorizedError(message);
+    case 403:
+      return new ForbiddenError(message);
+    case 404:
+      return new NotFoundError(message);
+    case 409:
+      return new ConflictError(message);
+    default:
+      return new ApiError(message || `Request failed with status ${status}`);
+  }
+};
+
+export const createRestApi = (baseUrl: string): ApiClient => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  // Thin fetch wrapper: JSON in, JSON out, and a typed ApiError on failure
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const token = authSession.getToken();
+    let response: Response;
+
+    try {
+      response = await fetch(`${root}${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...init.headers,
+        },
+      });
+    } catch {
+      throw new NetworkError();
+    }
+
+    if (!response.ok) {
+      const body: ErrorBody | null = await response.json().catch(() => null);
+      throw toApiError(response.status, body);
+    }
+
+    // Deletes and other actions may answer with no body at all
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    let text: string;
+
+    try {
+      text = await response.text();
+    } catch {
+      throw new NetworkError();
+    }
+
+    if (!text.trim()) {
+      return undefined as T;
+    }
+
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new ApiError("The server sent a response that couldn't be read");
+    }
+  };
+
+  return {
+    login: (username: string, password: string) =>
+      request<AuthToken>("/auth/login", {
+        method: "POST",
+        body: JSON.stringify({ username, password }),
+      }),
+
+    refreshToken: () => request<AuthToken>("/auth/refresh", { method: "POST" }),
+
+    getCustomers: () => request<Customer[]>("/customers"),
+
+    createCustomer: (customerData: CustomerFormData) =>
+      request<Customer>("/customers", {
+        method: "POST",
+        body: JSON.stringify(customerData),
+      }),
+
+    updateCustomer: (id: number, customerData: CustomerFormData) =>
+      request<Customer>(`/customers/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(customerData),
+      }),
+
+    deleteCustomer: (id: number) =>
+      request<void>(`/customers/${id}`, {
+        method: "DELETE",
+      }),
+
+    getCustomerOrders: (id: number) => request<SaleOrder[]>(`/customers/${id}/sale-orders`),
+
+    getProducts: () => request<Product[]>("/products"),
+
+    createProduct: (productData: ProductFormData) =>
+      request<Product>("/products", {
+        method: "POST",
+        body: JSON.stringify(productData),
+      }),
+
+    updateProduct: (id: number, productData: ProductFormData) =>
+      request<Product>(`/products/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(productData),
+      }),
+
+    createSKU: (productId: number, skuData: SKUFormData) =>
+      request<SKU>(`/products/${productId}/skus`, {
+        method: "POST",
+        body: JSON.stringify(skuData),
+      }),
+
+    updateSKU: (id: number, skuData: SKUFormData) =>
+      request<SKU>(`/skus/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(skuData),
+      }),
+
+    getSaleOrders: (query: SaleOrderQuery) =>
+      request<PaginatedResult<SaleOrder>>(`/sale-orders?${toSearchParams(query)}`),
+
+    getSaleOrder: (id: number) => request<SaleOrder>(`/sale-orders/${id}`),
+
+    createSaleOrder: (orderData: SaleOrderFormData) =>
+      request<SaleOrder>("/sale-orders", {
+        method: "POST",
+        body: JSON.stringify(orderData),
+      }),
+
+    updateSaleOrder: (id: number, orderData: SaleOrderFormData) =>
+      request<SaleOrder>(`/sale-orders/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(orderData),
+      }),
+
+    updateSaleOrderStatus: (id: number, status: OrderStatus) =>
+      request<SaleOrder>(`/sale-orders/${id}/status`, {
+        method: "POST",
+        body: JSON.stringify({ status }),
+      }),
+
+    cancelSaleOrder: (id: number, cancellationData: CancelSaleOrderData) =>
+      request<SaleOrder>(`/sale-orders/${id}/cancel`, {
+        method: "POST",
+        body: JSON.stringify(cancellationData),
+      }),
+
+    getCreditNotes: (query: CreditNoteQuery = {}) =>
+      request<CreditNote[]>(`/credit-notes?${toSearchParams(query)}`),
+
+    createReturn: (orderId: number, returnData: ReturnFormData) =>
+      request<CreditNote>(`/sale-orders/${orderId}/returns`, {
+        method: "POST",
+        body: JSON.stringify(returnData),
+      }),
+
+    getQuotations: () => request<Quotation[]>("/quotations"),
+
+    getQuotation: (id: number) => request<Quotation>(`/quotations/${id}`),
+
+    createQuotation: (quotationData: QuotationFormData) =>
+      request<Quotation>("/quotations", {
+        method: "POST",
+        body: JSON.stringify(quotationData),
+      }),
+
+    updateQuotation: (id: number, quotationData: QuotationFormData) =>
+      request<Quotation>(`/quotations/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(quotationData),
+      }),
+
+    getPayments: (orderId: number) => request<Payment[]>(`/sale-orders/${orderId}/payments`),
+
+    recordPayment: (orderId: number, paymentData: PaymentFormData) =>
+      request<Payment>(`/sale-orders/${orderId}/payments`, {
+        method: "POST",
+        body: JSON.stringify(paymentData),
+      }),
+
+    deletePayment: (orderId: number, paymentId: number) =>
+      request<void>(`/sale-orders/${orderId}/payments/${paymentId}`, {
+        method: "DELETE",
+      }),
+
+    getStockMovements: (skuId: number) =>
+      request<StockMovement[]>(`/skus/${skuId}/stock-movements`),
+
+    adjustStock: (adjustment: StockAdjustmentData) =>
+      request<SKU>(`/skus/${adjustment.sku_id}/stock-movements`, {
+        method: "POST",
+        body: JSON.stringify(adjustment),
+      }),
+  };
+};
@@ -0,0 +1,56 @@
+import { User } from "../types";
+import { claimsToUser, decodeTokenClaims, isTokenExpired } from "../lib/token";
+
+const STORAGE_KEY = "auth_token";
+// Sessions from before token auth kept the whole user, password included
+const LEGACY_STORAGE_KEY = "user";
+
+localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+let accessToken: string | null = localStorage.getItem(STORAGE_KEY);
+
+const getClaims = () => {
+  const claims = accessToken ? decodeTokenClaims(accessToken) : null;
+  return claims && !isTokenExpired(claims) ? claims : null;
+};
+
+// The access token the API sends with each request. Only the token is kept;
+// who is signed in is read back from its claims.
+export const authSession = {
+  getToken: () => accessToken,
+
+  setToken: (token: string | null) => {
+    accessToken = token;
+
+    if (token) {
+      localStorage.setItem(STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  },
+
+  // null once the token has expired
+  getUser: (): User | null => {
+    const claims = getClaims();
+    return claims ? claimsToUser(claims) : null;
+  },
+
+  // Epoch milliseconds, or null without a valid session
+  getExpiresAt: () => {
+    const claims = getClaims();
+    return claims ? claims.exp * 1000 : null;
+  },
+
+  // Follows logins, refreshes and logouts made in other tabs
+  subscribe: (listener: (user: User | null) => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY && event.key !== null) return;
+
+      accessToken = localStorage.getItem(STORAGE_KEY);
+      listener(authSession.getUser());
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  },
+};
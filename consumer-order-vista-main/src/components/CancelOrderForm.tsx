@@ -0,0 +1,126 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ValidationError } from "@/api";
+import { CancellationReason, CancelSaleOrderData } from "@/types";
+import { CANCELLATION_REASON_LABELS, requiresCancellationNote } from "@/lib/orders";
+
+const CANCELLATION_REASONS = Object.keys(CANCELLATION_REASON_LABELS) as CancellationReason[];
+
+const cancelOrderSchema = z
+  .object({
+    reason: z.enum(CANCELLATION_REASONS as [CancellationReason, ...CancellationReason[]], {
+      required_error: "Choose a reason for cancelling",
+    }),
+    note: z.string().trim(),
+  })
+  .refine((data) => !requiresCancellationNote(data.reason) || data.note.length > 0, {
+    path: ["note"],
+    message: "Explain why the order is being cancelled",
+  });
+
+type CancelOrderFormValues = z.infer<typeof cancelOrderSchema>;
+
+interface CancelOrderFormProps {
+  onSubmit: (data: CancelSaleOrderData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const CancelOrderForm: React.FC<CancelOrderFormProps> = ({
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const form = useForm<CancelOrderFormValues>({
+    resolver: zodResolver(cancelOrderSchema),
+    defaultValues: {
+      reason: undefined,
+      note: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as keyof CancelOrderFormValues, { type: "server", message });
+    });
+  }, [submitError, form]);
+
+  const reason = form.watch("reason");
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => onSubmit(values as CancelSaleOrderData))}
+        className="space-y-4"
+      >
+        <FormField
+          control={form.control}
+          name="reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reason</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Why is the order being cancelled?" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CANCELLATION_REASONS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {CANCELLATION_REASON_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                Note{reason && !requiresCancellationNote(reason) && " (optional)"}
+              </FormLabel>
+              <FormControl>
+                <Textarea {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" variant="destructive" disabled={isSubmitting}>
+            {isSubmitting ? "Cancelling..." : "Cancel Order"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
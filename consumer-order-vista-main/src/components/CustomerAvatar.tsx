@@ -0,0 +1,25 @@
+import React from "react";
+import { CustomerProfile } from "@/types";
+import { rgbToHex } from "@/lib/customers";
+import { cn } from "@/lib/utils";
+
+interface CustomerAvatarProps {
+  profile: Pick<CustomerProfile, "name" | "color" | "profile_pic">;
+  className?: string;
+}
+
+export const CustomerAvatar: React.FC<CustomerAvatarProps> = ({ profile, className }) =>
+  profile.profile_pic ? (
+    <img
+      src={profile.profile_pic}
+      alt={profile.name}
+      className={cn("w-8 h-8 rounded-full object-cover", className)}
+    />
+  ) : (
+    <div
+      className={cn("w-8 h-8 rounded-full flex items-center justify-center text-white", className)}
+      style={{ backgroundColor: rgbToHex(profile.color) }}
+    >
+      {profile.name.charAt(0).toUpperCase()}
+    </div>
+  );
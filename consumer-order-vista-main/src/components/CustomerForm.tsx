@@ -0,0 +1,267 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ValidationError } from "@/api";
+import { Customer, CustomerFormData } from "@/types";
+import { CustomerAvatar } from "@/components/CustomerAvatar";
+import { CUSTOMER_TYPE_LABELS, EMAIL_PATTERN, hexToRgb, rgbToHex } from "@/lib/customers";
+import { validateGstin } from "@/lib/gstin";
+import { getPincodeState, validatePincode } from "@/lib/pincode";
+import { getCustomerState, getSupplyType } from "@/lib/gst";
+import { SELLER } from "@/lib/seller";
+
+const customerFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z
+    .string()
+    .trim()
+    .min(1, "Email is required")
+    .regex(EMAIL_PATTERN, "Enter a valid email address"),
+  pincode: z
+    .string()
+    .trim()
+    .refine((value) => !validatePincode(value), (value) => ({ message: validatePincode(value) })),
+  location_name: z.string().trim().min(1, "Location is required"),
+  type: z.string().min(1, "Choose a customer type"),
+  gst: z
+    .string()
+    .trim()
+    .transform((value) => value.toUpperCase())
+    .refine(
+      (value) => value === "" || !validateGstin(value),
+      (value) => ({ message: validateGstin(value) })
+    ),
+  color: z.string(),
+  is_active: z.boolean(),
+});
+
+type CustomerFormValues = z.infer<typeof customerFormSchema>;
+
+interface CustomerFormProps {
+  initialData?: Customer;
+  onSubmit: (data: CustomerFormData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+const randomColor = () => rgbToHex([0, 0, 0].map(() => 60 + Math.floor(Math.random() * 140)));
+
+export const CustomerForm: React.FC<CustomerFormProps> = ({
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const profile = initialData?.customer_profile;
+
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerFormSchema),
+    defaultValues: {
+      name: profile?.name || "",
+      email: profile?.email || "",
+      pincode: profile?.pincode || "",
+      location_name: profile?.location_name || "",
+      type: profile?.type || "C",
+      gst: profile?.gst || "",
+      color: profile ? rgbToHex(profile.color) : randomColor(),
+      is_active: initialData ? initialData.is_active !== false : true,
+    },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as keyof CustomerFormValues, { type: "server", message });
+    });
+  }, [submitError, form]);
+
+  const [name, color, pincode, gst, location] = form.watch([
+    "name",
+    "color",
+    "pincode",
+    "gst",
+    "location_name",
+  ]);
+  const pincodeState = getPincodeState(pincode.trim());
+  const placeOfSupply = getCustomerState({
+    pincode: pincode.trim(),
+    gst: gst.trim().toUpperCase(),
+    location_name: location,
+  });
+
+  const handleSubmit = (values: CustomerFormValues) => {
+    onSubmit({ ...values, color: hexToRgb(values.color) } as CustomerFormData);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Customer or business name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="name@example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="location_name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Location</FormLabel>
+                <FormControl>
+                  <Input placeholder="City, State, India" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="pincode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pincode</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" maxLength={6} placeholder="400001" {...field} />
+                </FormControl>
+                {pincodeState && <FormDescription>{pincodeState.name}</FormDescription>}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(CUSTOMER_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gst"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>GSTIN</FormLabel>
+                <FormControl>
+                  <Input placeholder="Leave empty if unregistered" maxLength={15} {...field} />
+                </FormControl>
+                {placeOfSupply && (
+                  <FormDescription>
+                    Place of supply: {placeOfSupply.name} ·{" "}
+                    {getSupplyType(SELLER.state_code, placeOfSupply) === "inter_state"
+                      ? "IGST"
+                      : "CGST + SGST"}
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="color"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Avatar colour</FormLabel>
+                <div className="flex items-center gap-3">
+                  <CustomerAvatar profile={{ name: name || "?", color: hexToRgb(color), profile_pic: null }} />
+                  <FormControl>
+                    <Input type="color" className="w-16 p-1" {...field} />
+                  </FormControl>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="is_active"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0 md:mt-8">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+                <div className="space-y-1 leading-none">
+                  <FormLabel className="font-normal">Active</FormLabel>
+                  <FormDescription>Inactive customers can't be chosen for new orders.</FormDescription>
+                </div>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : initialData ? "Save Customer" : "Create Customer"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,41 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface IdleTimeoutDialogProps {
+  open: boolean;
+  secondsLeft: number;
+  onStayActive: () => void;
+  onLogout: () => void;
+}
+
+export const IdleTimeoutDialog: React.FC<IdleTimeoutDialogProps> = ({
+  open,
+  secondsLeft,
+  onStayActive,
+  onLogout,
+}) => (
+  <AlertDialog open={open}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+        <AlertDialogDescription>
+          You have been inactive for a while. For security you will be logged out in{" "}
+          {secondsLeft} second{secondsLeft === 1 ? "" : "s"}.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={onLogout}>Log out</AlertDialogCancel>
+        <AlertDialogAction onClick={onStayActive}>Stay logged in</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -1,25 +1,60 @@
 
 import React from "react";
 import { ThemeToggle } from "./ThemeToggle";
+import { ResetDemoDataButton } from "./ResetDemoDataButton";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 import { LogOut } from "lucide-react";
+import { NavLink } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import { ROLE_LABELS } from "@/lib/permissions";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Sale Orders" },
+  { to: "/quotations", label: "Quotations" },
+  { to: "/customers", label: "Customers" },
+  { to: "/products", label: "Products" },
+  { to: "/inventory", label: "Inventory" },
+];
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
 
   return (
     <div className="min-h-screen bg-background">
       <header className="sticky top-0 z-10 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
         <div className="container flex h-16 items-center justify-between">
-          <div className="flex items-center gap-2">
+          <div className="flex items-center gap-6">
             <h1 className="text-xl font-bold">Sales Order Management</h1>
+            <nav className="hidden md:flex items-center gap-4 text-sm">
+              {NAV_ITEMS.map((item) => (
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  end={item.to === "/"}
+                  className={({ isActive }) =>
+                    cn(
+                      "transition-colors hover:text-foreground",
+                      isActive ? "text-foreground font-medium" : "text-muted-foreground"
+                    )
+                  }
+                >
+                  {item.label}
+                </NavLink>
+              ))}
+            </nav>
           </div>
           <div className="flex items-center gap-4">
+            {user && (
+              <span className="hidden sm:inline text-sm text-muted-foreground">
+                {user.username} · {ROLE_LABELS[user.role]}
+              </span>
+            )}
+            <ResetDemoDataButton />
             <ThemeToggle />
             <Button
               variant="outline"
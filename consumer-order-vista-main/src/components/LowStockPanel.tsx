@@ -0,0 +1,85 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Product } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StockLevelBadge } from "@/components/StockLevelBadge";
+import { FileDown } from "lucide-react";
+import { downloadReorderList, getReorderSuggestions } from "@/lib/inventory";
+import { productPath } from "@/lib/routes";
+
+// Rows shown on the dashboard; the export always has every suggestion
+const MAX_ROWS = 5;
+
+interface LowStockPanelProps {
+  products: Product[];
+}
+
+export const LowStockPanel: React.FC<LowStockPanelProps> = ({ products }) => {
+  const suggestions = getReorderSuggestions(products);
+  if (suggestions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Low stock</CardTitle>
+          <CardDescription>
+            {suggestions.length} SKU{suggestions.length === 1 ? " is" : "s are"} at or below the
+            reorder level
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/inventory">Inventory</Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => downloadReorderList(suggestions)}>
+            <FileDown className="mr-2 h-4 w-4" /> Reorder list
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-medium">Product</TableHead>
+              <TableHead className="font-medium">SKU</TableHead>
+              <TableHead className="text-right font-medium">In Stock</TableHead>
+              <TableHead className="text-right font-medium">Reorder Level</TableHead>
+              <TableHead className="text-right font-medium">Suggested Order</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suggestions.slice(0, MAX_ROWS).map(({ product, sku, level, quantity }) => (
+              <TableRow key={sku.id}>
+                <TableCell className="font-medium">
+                  <Link to={productPath(product.id)} className="hover:underline">
+                    {product.name}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  {sku.amount} {sku.unit}
+                  <span className="text-muted-foreground text-xs ml-2">#{sku.id}</span>
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    <StockLevelBadge level={level} />
+                    {sku.quantity_in_inventory}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{sku.reorder_level || 0}</TableCell>
+                <TableCell className="text-right">{quantity}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {suggestions.length > MAX_ROWS && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            and {suggestions.length - MAX_ROWS} more in the reorder list
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
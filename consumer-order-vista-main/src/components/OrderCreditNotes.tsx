@@ -0,0 +1,114 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { CreditNote, SaleOrder } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileDown, Printer } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/gst";
+import {
+  downloadInvoice,
+  getCreditNoteFileName,
+  printInvoice,
+  renderCreditNoteHtml,
+} from "@/lib/invoice";
+
+interface OrderCreditNotesProps {
+  order: SaleOrder;
+}
+
+// Credit notes issued for goods returned against an order
+export const OrderCreditNotes: React.FC<OrderCreditNotesProps> = ({ order }) => {
+  const { data: creditNotes, isLoading, error } = useQuery({
+    queryKey: ["creditNotes", { order_id: order.id }],
+    queryFn: () => api.getCreditNotes({ order_id: order.id }),
+  });
+
+  const handlePrint = (creditNote: CreditNote) => {
+    try {
+      printInvoice(renderCreditNoteHtml(creditNote));
+    } catch (error) {
+      toast({
+        title: "Failed to print credit note",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return <p className="border-t pt-4 text-sm text-destructive">{getErrorMessage(error)}</p>;
+  }
+
+  if (isLoading || !creditNotes || creditNotes.length === 0) {
+    return null;
+  }
+
+  // Most orders never have a return, so the section only shows up once there is one
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <h3 className="text-lg font-medium">Credit Notes</h3>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-accent">
+              <TableHead className="font-medium">Credit Note</TableHead>
+              <TableHead className="font-medium">Items</TableHead>
+              <TableHead className="text-right font-medium">Credit (₹)</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {creditNotes.map((creditNote) => (
+              <TableRow key={creditNote.id}>
+                <TableCell>
+                  <div className="font-medium">{creditNote.credit_note_no}</div>
+                  <div className="text-muted-foreground text-xs">
+                    {format(new Date(creditNote.credit_note_date), "dd/MM/yyyy")}
+                    {creditNote.created_by && ` by ${creditNote.created_by}`}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {creditNote.items.map((item) => (
+                    <div key={item.line}>
+                      {item.quantity} × {item.product_name}
+                    </div>
+                  ))}
+                  {creditNote.note && (
+                    <div className="text-muted-foreground text-xs">{creditNote.note}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(creditNote.grand_total)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Download credit note"
+                    onClick={() =>
+                      downloadInvoice(
+                        renderCreditNoteHtml(creditNote),
+                        getCreditNoteFileName(creditNote)
+                      )
+                    }
+                  >
+                    <FileDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Print credit note"
+                    onClick={() => handlePrint(creditNote)}
+                  >
+                    <Printer className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
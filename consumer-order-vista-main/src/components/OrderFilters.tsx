@@ -0,0 +1,154 @@
+import React from "react";
+import { Search, X } from "lucide-react";
+import { Customer, PaymentStatus, SaleOrderFilters } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PAYMENT_STATUS_LABELS } from "@/lib/payments";
+
+const ALL_CUSTOMERS = "all";
+const ANY_PAYMENT_STATUS = "any";
+
+interface OrderFiltersProps {
+  customers: Customer[];
+  filters: SaleOrderFilters;
+  onChange: (filters: SaleOrderFilters) => void;
+}
+
+const toOptionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+export const OrderFilters: React.FC<OrderFiltersProps> = ({
+  customers,
+  filters,
+  onChange,
+}) => {
+  const update = (changes: Partial<SaleOrderFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const hasFilters = Object.values(filters).some((value) => value !== undefined && value !== "");
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-7 items-end">
+      <div className="space-y-2 lg:col-span-2">
+        <Label htmlFor="order-search">Search</Label>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            id="order-search"
+            className="pl-9"
+            placeholder="Invoice number or customer name"
+            value={filters.search ?? ""}
+            onChange={(e) => update({ search: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Customer</Label>
+        <Select
+          value={filters.customer_id !== undefined ? String(filters.customer_id) : ALL_CUSTOMERS}
+          onValueChange={(value) =>
+            update({ customer_id: value === ALL_CUSTOMERS ? undefined : Number(value) })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="All customers" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CUSTOMERS}>All customers</SelectItem>
+            {customers.map((customer) => (
+              <SelectItem
+                key={customer.customer_profile.id}
+                value={String(customer.customer_profile.id)}
+              >
+                {customer.customer_profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Payment</Label>
+        <Select
+          value={filters.payment_status ?? ANY_PAYMENT_STATUS}
+          onValueChange={(value) =>
+            update({
+              payment_status: value === ANY_PAYMENT_STATUS ? undefined : (value as PaymentStatus),
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Any payment status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_PAYMENT_STATUS}>Any payment status</SelectItem>
+            {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {PAYMENT_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Invoice Date</Label>
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            aria-label="Invoice date from"
+            value={filters.invoice_date_from ?? ""}
+            max={filters.invoice_date_to}
+            onChange={(e) => update({ invoice_date_from: e.target.value || undefined })}
+          />
+          <Input
+            type="date"
+            aria-label="Invoice date to"
+            value={filters.invoice_date_to ?? ""}
+            min={filters.invoice_date_from}
+            onChange={(e) => update({ invoice_date_to: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Taxable Value (₹)</Label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder="Min"
+            aria-label="Minimum price"
+            value={filters.min_price ?? ""}
+            onChange={(e) => update({ min_price: toOptionalNumber(e.target.value) })}
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Max"
+            aria-label="Maximum price"
+            value={filters.max_price ?? ""}
+            onChange={(e) => update({ max_price: toOptionalNumber(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <Button
+        variant="ghost"
+        disabled={!hasFilters}
+        onClick={() => onChange({})}
+      >
+        <X className="mr-2 h-4 w-4" /> Clear filters
+      </Button>
+    </div>
+  );
+};
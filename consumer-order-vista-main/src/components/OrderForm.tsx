@@ -1,10 +1,9 @@
-
-import React, { useEffect, useState } from "react";
+import React, { useEffect } from "react";
 import { z } from "zod";
-import { useForm, useFieldArray } from "react-hook-form";
+import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { format } from "date-fns";
-import { Calendar as CalendarIcon, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Calendar as CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
@@ -29,34 +28,44 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Customer, Product, SaleOrder } from "@/types";
+import { Customer, OrderItem, Product, SaleOrder } from "@/types";
 import { Separator } from "@/components/ui/separator";
+import { ValidationError } from "@/api";
+import { getStockErrors } from "@/lib/inventory";
+import { isCustomerActive } from "@/lib/customers";
+import { orderItemsSchema } from "@/lib/orders";
+import { OrderItemsEditor } from "@/components/OrderItemsEditor";
 
 const orderFormSchema = z.object({
   customer_id: z.number({
     required_error: "Please select a customer",
   }),
-  invoice_no: z.string().min(1, "Invoice number is required"),
   invoice_date: z.date({
     required_error: "Invoice date is required",
   }),
-  items: z
-    .array(
-      z.object({
-        sku_id: z.number({
-          required_error: "Please select a product",
-        }),
-        price: z.number().min(0, "Price must be a positive number"),
-        quantity: z.number().min(1, "Quantity must be at least 1"),
-      })
-    )
-    .min(1, "At least one item is required"),
-  paid: z.boolean().default(false),
+  items: orderItemsSchema,
+  allow_backorder: z.boolean().default(false),
 });
 
 type OrderFormValues = z.infer<typeof orderFormSchema>;
 
+// The stock check needs the current catalogue, so it's layered on per render
+const withStockCheck = (products: Product[], reservedItems: OrderItem[]) =>
+  orderFormSchema.superRefine((data, ctx) => {
+    if (data.allow_backorder) return;
+
+    const skus = products.flatMap((p) => p.sku);
+    Object.entries(getStockErrors(data.items as OrderItem[], skus, reservedItems)).forEach(([path, message]) => {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: path.split(".").map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment)),
+        message,
+      });
+    });
+  });
+
 interface OrderFormProps {
   initialData?: SaleOrder;
   customers: Customer[];
@@ -64,6 +73,10 @@ interface OrderFormProps {
   onSubmit: (data: OrderFormValues) => void;
   isSubmitting: boolean;
   readOnly?: boolean;
+  // Offer the "allow backorder" override (admins only)
+  canBackorder?: boolean;
+  // Last error from submitting; validation errors are shown on their fields
+  submitError?: unknown;
 }
 
 export const OrderForm: React.FC<OrderFormProps> = ({
@@ -73,88 +86,48 @@ export const OrderForm: React.FC<OrderFormProps> = ({
   onSubmit,
   isSubmitting,
   readOnly = false,
+  canBackorder = false,
+  submitError,
 }) => {
-  const [selectedProduct, setSelectedProduct] = useState<number | null>(null);
+  const reservedItems = initialData?.items || [];
+  // The invoice number carries the invoice date, so it's fixed once issued
+  const isDateLocked = readOnly || !!initialData;
+  // Deactivated customers stay selectable only on orders that already have them
+  const customerOptions = customers.filter(
+    (c) => isCustomerActive(c) || c.customer_profile.id === initialData?.customer_id
+  );
   
   const form = useForm<OrderFormValues>({
-    resolver: zodResolver(orderFormSchema),
+    resolver: zodResolver(withStockCheck(products, reservedItems)),
     defaultValues: initialData
       ? {
           customer_id: initialData.customer_id,
-          invoice_no: initialData.invoice_no,
-          invoice_date: new Date(initialData.invoice_date),
+          invoice_date: parseISO(initialData.invoice_date),
           items: initialData.items.map((item) => ({
             sku_id: item.sku_id,
             price: item.price,
             quantity: item.quantity,
           })),
-          paid: initialData.paid,
+          allow_backorder: false,
         }
       : {
-          customer_id: customers[0]?.customer_profile.id || 0,
-          invoice_no: `INV-${format(new Date(), "yyyyMMdd")}-${Math.floor(
-            Math.random() * 1000
-          )
-            .toString()
-            .padStart(3, "0")}`,
+          customer_id: customerOptions[0]?.customer_profile.id || 0,
           invoice_date: new Date(),
           items: [],
-          paid: false,
+          allow_backorder: false,
         },
   });
 
-  const { fields, append, remove } = useFieldArray({
-    name: "items",
-    control: form.control,
-  });
-
-  // Get all available SKUs for the selected product
-  const getProductSKUs = (productId: number) => {
-    const product = products.find((p) => p.id === productId);
-    return product ? product.sku : [];
-  };
-
-  const handleProductChange = (productId: number) => {
-    setSelectedProduct(productId);
-  };
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
 
-  const handleAddItem = () => {
-    if (!selectedProduct) return;
-    
-    const product = products.find((p) => p.id === selectedProduct);
-    if (!product || product.sku.length === 0) return;
-    
-    const sku = product.sku[0];
-    
-    append({
-      sku_id: sku.id,
-      price: sku.selling_price,
-      quantity: 1,
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as Parameters<typeof form.setError>[0], {
+        type: "server",
+        message,
+      });
     });
-    
-    setSelectedProduct(null);
-  };
-
-  const getProductNameBySKUId = (skuId: number) => {
-    for (const product of products) {
-      const sku = product.sku.find((s) => s.id === skuId);
-      if (sku) return product.name;
-    }
-    return "Unknown Product";
-  };
-
-  const getSKUDetails = (skuId: number) => {
-    for (const product of products) {
-      const sku = product.sku.find((s) => s.id === skuId);
-      if (sku) {
-        return {
-          productName: product.name,
-          sku: sku,
-        };
-      }
-    }
-    return null;
-  };
+  }, [submitError, form]);
 
   return (
     <Form {...form}>
@@ -178,7 +151,7 @@ export const OrderForm: React.FC<OrderFormProps> = ({
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    {customers.map((customer) => (
+                    {customerOptions.map((customer) => (
                       <SelectItem
                         key={customer.customer_profile.id}
                         value={String(customer.customer_profile.id)}
@@ -193,24 +166,16 @@ export const OrderForm: React.FC<OrderFormProps> = ({
             )}
           />
 
-          {/* Invoice Number */}
-          <FormField
-            control={form.control}
-            name="invoice_no"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Invoice Number</FormLabel>
-                <FormControl>
-                  <Input 
-                    placeholder="Enter invoice number" 
-                    {...field} 
-                    disabled={readOnly}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          {/* Invoice Number: issued in sequence when the order is first saved */}
+          <div className="space-y-2">
+            <Label htmlFor="invoice-no">Invoice Number</Label>
+            <Input
+              id="invoice-no"
+              value={initialData?.invoice_no || ""}
+              placeholder="Assigned when the order is saved"
+              disabled
+            />
+          </div>
 
           {/* Invoice Date */}
           <FormField
@@ -220,7 +185,7 @@ export const OrderForm: React.FC<OrderFormProps> = ({
               <FormItem className="flex flex-col">
                 <FormLabel>Invoice Date</FormLabel>
                 <Popover>
-                  <PopoverTrigger asChild disabled={readOnly}>
+                  <PopoverTrigger asChild disabled={isDateLocked}>
                     <FormControl>
                       <Button
                         variant={"outline"}
@@ -245,7 +210,7 @@ export const OrderForm: React.FC<OrderFormProps> = ({
                       onSelect={field.onChange}
                       initialFocus
                       className="pointer-events-auto"
-                      disabled={readOnly}
+                      disabled={isDateLocked}
                     />
                   </PopoverContent>
                 </Popover>
@@ -253,151 +218,43 @@ export const OrderForm: React.FC<OrderFormProps> = ({
               </FormItem>
             )}
           />
-
-          {/* Paid Status */}
-          <FormField
-            control={form.control}
-            name="paid"
-            render={({ field }) => (
-              <FormItem className="flex flex-row items-center space-x-3 space-y-0 mt-8">
-                <FormControl>
-                  <Checkbox
-                    checked={field.value}
-                    onCheckedChange={field.onChange}
-                    disabled={readOnly}
-                  />
-                </FormControl>
-                <FormLabel className="font-normal">
-                  Mark as paid/completed
-                </FormLabel>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
         </div>
 
         <Separator className="my-4" />
 
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium">Order Items</h3>
-
-          {!readOnly && (
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <div className="col-span-3">
-                <Select
-                  value={selectedProduct ? String(selectedProduct) : ""}
-                  onValueChange={(value) => handleProductChange(Number(value))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a product to add" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {products.map((product) => (
-                      <SelectItem key={product.id} value={String(product.id)}>
-                        {product.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <Button
-                type="button"
-                onClick={handleAddItem}
-                disabled={!selectedProduct}
-              >
-                <Plus className="mr-2 h-4 w-4" /> Add Item
-              </Button>
-            </div>
-          )}
-
-          <div className="space-y-4">
-            {fields.length === 0 ? (
-              <div className="text-center py-8 border rounded-md">
-                <p className="text-muted-foreground">No items in this order yet.</p>
-                {!readOnly && (
-                  <p className="text-sm text-muted-foreground">
-                    Use the product selector above to add items.
-                  </p>
-                )}
-              </div>
-            ) : (
-              fields.map((field, index) => {
-                const skuDetails = getSKUDetails(form.watch(`items.${index}.sku_id`));
-                
-                return (
-                  <div
-                    key={field.id}
-                    className="grid grid-cols-1 md:grid-cols-5 gap-4 items-center p-4 border rounded-md"
-                  >
-                    <div className="md:col-span-2">
-                      <p className="font-medium">{getProductNameBySKUId(field.sku_id)}</p>
-                      {skuDetails && (
-                        <p className="text-sm text-muted-foreground">
-                          {skuDetails.sku.amount} {skuDetails.sku.unit} - SKU #{field.sku_id}
-                        </p>
-                      )}
-                    </div>
-
-                    <FormField
-                      control={form.control}
-                      name={`items.${index}.price`}
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Price (₹)</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="number"
-                              min={0}
-                              step={0.01}
-                              {...field}
-                              onChange={(e) => field.onChange(Number(e.target.value))}
-                              disabled={readOnly}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name={`items.${index}.quantity`}
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Quantity</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="number"
-                              min={1}
-                              {...field}
-                              onChange={(e) => field.onChange(Number(e.target.value))}
-                              disabled={readOnly}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
+        <OrderItemsEditor
+          title="Order Items"
+          customers={customers}
+          products={products}
+          savedItems={reservedItems}
+          savedTax={initialData?.tax}
+          savedBilling={initialData?.billing}
+          readOnly={readOnly}
+        >
+          {canBackorder && !readOnly && (
+            <FormField
+              control={form.control}
+              name="allow_backorder"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked);
+                        // Clear or re-raise stock errors straight away
+                        if (form.formState.isSubmitted) form.trigger("items");
+                      }}
                     />
-
-                    {!readOnly && (
-                      <div className="flex justify-center md:justify-end">
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => remove(index)}
-                          className="mt-6"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    )}
-                  </div>
-                );
-              })
-            )}
-          </div>
-        </div>
+                  </FormControl>
+                  <FormLabel className="font-normal">
+                    Allow backorder (accept quantities above available stock)
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+          )}
+        </OrderItemsEditor>
 
         {!readOnly && (
           <div className="flex justify-end">
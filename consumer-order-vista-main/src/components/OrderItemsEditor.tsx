@@ -0,0 +1,378 @@
+import React, { useState } from "react";
+import { z } from "zod";
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { BillingParty, Customer, OrderItem, Product, SKU, TaxBreakup } from "@/types";
+import { getAvailableStock, getStockLevel, StockLevel } from "@/lib/inventory";
+import {
+  calculateTax,
+  formatCurrency,
+  getCustomerState,
+  getGrandTotal,
+  getSKUGstRate,
+  getSupplyType,
+} from "@/lib/gst";
+import { SELLER } from "@/lib/seller";
+import { isSKUOnSale } from "@/lib/products";
+import { orderItemsSchema } from "@/lib/orders";
+import { StockLevelBadge } from "@/components/StockLevelBadge";
+
+// The fields the editor reads from the surrounding form
+interface OrderItemsFormValues {
+  customer_id: number;
+  items: z.infer<typeof orderItemsSchema>;
+}
+
+const formatSKUOption = (sku: SKU, available: number) =>
+  `${sku.amount} ${sku.unit} · ₹${sku.selling_price} (MRP ₹${sku.max_retail_price}) · ${
+    available > 0 ? `${available} in stock` : "Out of stock"
+  }${available > 0 && getStockLevel(sku) === "low" ? " · Low stock" : ""}${
+    isSKUOnSale(sku) ? "" : " · Retired"
+  }`;
+
+interface OrderItemsEditorProps {
+  title: string;
+  customers: Customer[];
+  products: Product[];
+  // Lines already saved; their retired SKUs stay selectable
+  savedItems?: OrderItem[];
+  // Saved lines hold stock (orders, not quotes), so it counts as available to them
+  reservesStock?: boolean;
+  // Shown instead of the live GST breakup and place of supply when read-only
+  savedTax?: TaxBreakup;
+  savedBilling?: BillingParty;
+  readOnly?: boolean;
+  // Extra controls rendered above the lines
+  children?: React.ReactNode;
+}
+
+// Product picker, editable lines and live GST breakup. Must be rendered inside a
+// <Form> whose values include `customer_id` and `items`.
+export const OrderItemsEditor: React.FC<OrderItemsEditorProps> = ({
+  title,
+  customers,
+  products,
+  savedItems = [],
+  reservesStock = true,
+  savedTax,
+  savedBilling,
+  readOnly = false,
+  children,
+}) => {
+  const form = useFormContext<OrderItemsFormValues>();
+  const [selectedProduct, setSelectedProduct] = useState<number | null>(null);
+  const reservedItems = reservesStock ? savedItems : [];
+  // Retired SKUs can only stay on lines the order already had
+  const isSKUSelectable = (sku: SKU) =>
+    isSKUOnSale(sku) || savedItems.some((item) => item.sku_id === sku.id);
+  const productOptions = products.filter((p) => p.sku.some(isSKUSelectable));
+
+  // Out of stock only when no SKU can be fulfilled; low when any SKU needs reordering
+  const getProductStockLevel = (product: Product): StockLevel => {
+    const levels = product.sku.filter(isSKUSelectable).map(getStockLevel);
+    if (levels.every((level) => level === "out_of_stock")) return "out_of_stock";
+    return levels.some((level) => level !== "in_stock") ? "low" : "in_stock";
+  };
+
+  const { fields, append, remove } = useFieldArray({
+    name: "items",
+    control: form.control,
+  });
+
+  // Get all available SKUs for the selected product
+  const getProductSKUs = (productId: number) => {
+    const product = products.find((p) => p.id === productId);
+    return product ? product.sku.filter(isSKUSelectable) : [];
+  };
+
+  const handleProductChange = (productId: number) => {
+    setSelectedProduct(productId);
+  };
+
+  const handleAddItem = () => {
+    if (!selectedProduct) return;
+
+    const skus = getProductSKUs(selectedProduct);
+    if (skus.length === 0) return;
+
+    // Default to the first SKU that can actually be fulfilled; the user can switch it on the line
+    const sku = skus.find((s) => s.quantity_in_inventory > 0) || skus[0];
+
+    append({
+      sku_id: sku.id,
+      price: sku.selling_price,
+      quantity: 1,
+    });
+
+    setSelectedProduct(null);
+  };
+
+  const handleSKUChange = (index: number, skuId: number) => {
+    const details = getSKUDetails(skuId);
+    if (!details) return;
+
+    form.setValue(`items.${index}.sku_id`, skuId, { shouldDirty: true, shouldValidate: true });
+    form.setValue(`items.${index}.price`, details.sku.selling_price, {
+      shouldDirty: true,
+      shouldValidate: true,
+    });
+  };
+
+  const getProductNameBySKUId = (skuId: number) => {
+    for (const product of products) {
+      const sku = product.sku.find((s) => s.id === skuId);
+      if (sku) return product.name;
+    }
+    return "Unknown Product";
+  };
+
+  const getSKUDetails = (skuId: number) => {
+    for (const product of products) {
+      const sku = product.sku.find((s) => s.id === skuId);
+      if (sku) {
+        return {
+          productId: product.id,
+          productName: product.name,
+          sku: sku,
+          gstRate: getSKUGstRate(product, sku),
+        };
+      }
+    }
+    return null;
+  };
+
+  const itemsError =
+    form.formState.errors.items?.message || form.formState.errors.items?.root?.message;
+
+  // Live GST breakup; a read-only order shows exactly what was saved
+  const watchedCustomerId = form.watch("customer_id");
+  const watchedItems = form.watch("items");
+  const selectedCustomer = customers.find((c) => c.customer_profile.id === watchedCustomerId);
+  const customerState = selectedCustomer && getCustomerState(selectedCustomer.customer_profile);
+  const placeOfSupply = readOnly && savedBilling ? savedBilling.state_name : customerState?.name;
+  const tax =
+    readOnly && savedTax
+      ? savedTax
+      : calculateTax(
+          (watchedItems || []).map((item) => ({
+            price: item.price || 0,
+            quantity: item.quantity || 0,
+            gst_rate: getSKUDetails(item.sku_id)?.gstRate ?? 0,
+          })),
+          getSupplyType(SELLER.state_code, customerState)
+        );
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">{title}</h3>
+
+      {!readOnly && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="col-span-3">
+            <Select
+              value={selectedProduct ? String(selectedProduct) : ""}
+              onValueChange={(value) => handleProductChange(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a product to add" />
+              </SelectTrigger>
+              <SelectContent>
+                {productOptions.map((product) => (
+                  <SelectItem key={product.id} value={String(product.id)}>
+                    <span className="flex items-center gap-2">
+                      {product.name}
+                      <StockLevelBadge level={getProductStockLevel(product)} />
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            onClick={handleAddItem}
+            disabled={!selectedProduct}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add Item
+          </Button>
+        </div>
+      )}
+
+      {itemsError && (
+        <p className="text-sm font-medium text-destructive">{itemsError}</p>
+      )}
+
+      {children}
+
+      <div className="space-y-4">
+        {fields.length === 0 ? (
+          <div className="text-center py-8 border rounded-md">
+            <p className="text-muted-foreground">No items added yet.</p>
+            {!readOnly && (
+              <p className="text-sm text-muted-foreground">
+                Use the product selector above to add items.
+              </p>
+            )}
+          </div>
+        ) : (
+          fields.map((field, index) => {
+            const skuDetails = getSKUDetails(form.watch(`items.${index}.sku_id`));
+
+            return (
+              <div
+                key={field.id}
+                className="grid grid-cols-1 md:grid-cols-5 gap-4 items-center p-4 border rounded-md"
+              >
+                <div className="md:col-span-2 space-y-2">
+                  <p className="font-medium">{getProductNameBySKUId(field.sku_id)}</p>
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.sku_id`}
+                    render={({ field: skuField }) => (
+                      <FormItem>
+                        <FormLabel className="sr-only">SKU</FormLabel>
+                        <Select
+                          disabled={readOnly}
+                          value={String(skuField.value)}
+                          onValueChange={(value) => handleSKUChange(index, Number(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a SKU" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {skuDetails &&
+                              getProductSKUs(skuDetails.productId).map((sku) => (
+                                <SelectItem key={sku.id} value={String(sku.id)}>
+                                  {formatSKUOption(sku, getAvailableStock(sku, reservedItems))}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {skuDetails && (
+                    <p className="text-xs text-muted-foreground">
+                      SKU #{skuDetails.sku.id} · GST {skuDetails.gstRate}%
+                    </p>
+                  )}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name={`items.${index}.price`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price (₹)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          {...field}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                          disabled={readOnly}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name={`items.${index}.quantity`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantity</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          {...field}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                          disabled={readOnly}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {!readOnly && (
+                  <div className="flex justify-center md:justify-end">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      className="mt-6"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {fields.length > 0 && (
+        <div className="ml-auto w-full max-w-sm space-y-1 rounded-md border p-4 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Taxable value</span>
+            <span>{formatCurrency(tax.taxable_value)}</span>
+          </div>
+          {tax.supply_type === "intra_state" ? (
+            <>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">CGST</span>
+                <span>{formatCurrency(tax.cgst)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">SGST</span>
+                <span>{formatCurrency(tax.sgst)}</span>
+              </div>
+            </>
+          ) : (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">IGST</span>
+              <span>{formatCurrency(tax.igst)}</span>
+            </div>
+          )}
+          <Separator className="my-2" />
+          <div className="flex justify-between font-medium">
+            <span>Grand total</span>
+            <span>{formatCurrency(getGrandTotal(tax))}</span>
+          </div>
+          <p className="pt-1 text-xs text-muted-foreground">
+            {tax.supply_type === "intra_state"
+              ? `Intra-state supply within ${SELLER.state_name}`
+              : `Inter-state supply to ${placeOfSupply || "another state"}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
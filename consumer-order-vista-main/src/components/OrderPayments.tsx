@@ -0,0 +1,186 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { PaymentFormData, SaleOrder } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaymentForm } from "@/components/PaymentForm";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
+import { Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatCurrency } from "@/lib/gst";
+import { PAYMENT_MODE_LABELS } from "@/lib/payments";
+import { isOrderVoid } from "@/lib/orders";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface OrderPaymentsProps {
+  order: SaleOrder;
+}
+
+// Payment history for an order, with the form to record the next one
+export const OrderPayments: React.FC<OrderPaymentsProps> = ({ order }) => {
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+
+  const { data: payments, isLoading, error } = useQuery({
+    queryKey: ["orders", "payments", order.id],
+    queryFn: () => api.getPayments(order.id),
+  });
+
+  // Payments change the order's totals, which show up in every order list
+  const refreshOrders = () => queryClient.invalidateQueries({ queryKey: ["orders"] });
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: (data: PaymentFormData) => api.recordPayment(order.id, data),
+    onSuccess: (payment) => {
+      refreshOrders();
+      toast({
+        title: "Payment recorded",
+        description: `${formatCurrency(payment.amount)} received against ${order.invoice_no}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to record payment",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: (paymentId: number) => api.deletePayment(order.id, paymentId),
+    onSuccess: () => {
+      refreshOrders();
+      toast({
+        title: "Payment deleted",
+        description: `The balance due on ${order.invoice_no} has been updated.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete payment",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A cancelled order's refund was worked out from what had been paid
+  const canDelete = hasPermission("payments:delete") && !isOrderVoid(order);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium">Payments</h3>
+        <PaymentStatusBadge status={order.payment_status} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <div className="text-muted-foreground">Grand total</div>
+          <div className="font-medium">{formatCurrency(order.grand_total)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Received</div>
+          <div className="font-medium">{formatCurrency(order.amount_received)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Balance due</div>
+          <div className="font-medium">{formatCurrency(order.balance_due)}</div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading payments...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive">{getErrorMessage(error)}</p>
+      ) : payments && payments.length > 0 ? (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">Date</TableHead>
+                <TableHead className="font-medium">Mode</TableHead>
+                <TableHead className="font-medium">Reference</TableHead>
+                <TableHead className="text-right font-medium">Amount (₹)</TableHead>
+                {canDelete && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>
+                    <div>{format(new Date(payment.payment_date), "dd/MM/yyyy")}</div>
+                    {payment.recorded_by && (
+                      <div className="text-muted-foreground text-xs">by {payment.recorded_by}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{PAYMENT_MODE_LABELS[payment.mode]}</TableCell>
+                  <TableCell>{payment.reference || "—"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+                  {canDelete && (
+                    <TableCell className="text-right">
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete payment"
+                            className="text-destructive"
+                            disabled={deletePaymentMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this payment?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {formatCurrency(payment.amount)} will be added back to the balance due.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deletePaymentMutation.mutate(payment.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+      )}
+
+      {hasPermission("payments:record") && !isOrderVoid(order) && order.balance_due > 0 && (
+        <PaymentForm
+          // Start afresh, pre-filled with the new balance, after each payment
+          key={order.balance_due}
+          balanceDue={order.balance_due}
+          onSubmit={(data) => recordPaymentMutation.mutate(data)}
+          isSubmitting={recordPaymentMutation.isPending}
+          submitError={recordPaymentMutation.error}
+        />
+      )}
+    </div>
+  );
+};
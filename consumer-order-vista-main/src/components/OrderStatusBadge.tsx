@@ -0,0 +1,27 @@
+import React from "react";
+import { OrderStatus } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { ORDER_STATUS_LABELS } from "@/lib/orders";
+import { cn } from "@/lib/utils";
+
+const STATUS_VARIANTS: Record<OrderStatus, "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  confirmed: "secondary",
+  packed: "secondary",
+  dispatched: "secondary",
+  delivered: "secondary",
+  cancelled: "destructive",
+  returned: "destructive",
+};
+
+export const OrderStatusBadge: React.FC<{ status: OrderStatus; className?: string }> = ({
+  status,
+  className,
+}) => (
+  <Badge
+    variant={STATUS_VARIANTS[status]}
+    className={cn(status === "delivered" && "bg-green-100 text-green-800", className)}
+  >
+    {ORDER_STATUS_LABELS[status]}
+  </Badge>
+);
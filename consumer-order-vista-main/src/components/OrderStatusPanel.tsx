@@ -0,0 +1,154 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { OrderStatus, SaleOrder } from "@/types";
+import { Button } from "@/components/ui/button";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatQuoteNo } from "@/lib/quotations";
+import { quotationSearchPath } from "@/lib/routes";
+import {
+  CANCELLATION_REASON_LABELS,
+  canCancelOrder,
+  canReturnOrder,
+  getTransitionPermission,
+  ORDER_STATUS_ACTIONS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TRANSITIONS,
+} from "@/lib/orders";
+
+interface OrderStatusPanelProps {
+  order: SaleOrder;
+  // Cancelling needs a reason, so the owner collects it
+  onCancelOrder: (order: SaleOrder) => void;
+  // Returns pick lines and quantities, so the owner collects those too
+  onReturnOrder: (order: SaleOrder) => void;
+}
+
+// Where the order is in its lifecycle, how it got there and the next steps the user may take
+export const OrderStatusPanel: React.FC<OrderStatusPanelProps> = ({
+  order,
+  onCancelOrder,
+  onReturnOrder,
+}) => {
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+
+  const updateStatusMutation = useMutation({
+    mutationFn: (status: OrderStatus) => api.updateSaleOrderStatus(order.id, status),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      toast({
+        title: `Order ${ORDER_STATUS_LABELS[updated.status].toLowerCase()}`,
+        description: `${updated.invoice_no} is now ${ORDER_STATUS_LABELS[updated.status].toLowerCase()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update order status",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: quotation } = useQuery({
+    queryKey: ["quotations", order.quotation_id],
+    queryFn: () => api.getQuotation(order.quotation_id),
+    enabled: !!order.quotation_id,
+  });
+
+  const nextStatuses = ORDER_STATUS_TRANSITIONS[order.status].filter(
+    (status) =>
+      hasPermission(getTransitionPermission(status)) &&
+      (status !== "cancelled" || canCancelOrder(order)) &&
+      (status !== "returned" || canReturnOrder(order))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-medium">Status</h3>
+          <OrderStatusBadge status={order.status} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {nextStatuses.map((status) =>
+            status === "cancelled" ? (
+              <Button
+                key={status}
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => onCancelOrder(order)}
+              >
+                {ORDER_STATUS_ACTIONS[status]}
+              </Button>
+            ) : status === "returned" ? (
+              <Button
+                key={status}
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => onReturnOrder(order)}
+              >
+                {ORDER_STATUS_ACTIONS[status]}
+              </Button>
+            ) : (
+              <Button
+                key={status}
+                size="sm"
+                disabled={updateStatusMutation.isPending}
+                onClick={() => updateStatusMutation.mutate(status)}
+              >
+                {ORDER_STATUS_ACTIONS[status]}
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
+      {order.cancellation && (
+        <p className="text-sm">
+          <span className="font-medium">
+            {CANCELLATION_REASON_LABELS[order.cancellation.reason]}
+          </span>
+          {order.cancellation.note && (
+            <span className="text-muted-foreground"> · {order.cancellation.note}</span>
+          )}
+          {order.cancellation.credit_note_no && (
+            <span className="text-muted-foreground">
+              {" "}
+              · Reversed by {order.cancellation.credit_note_no}
+            </span>
+          )}
+        </p>
+      )}
+
+      {quotation && (
+        <p className="text-sm text-muted-foreground">
+          Converted from quotation{" "}
+          <Link to={quotationSearchPath(quotation.quote_no)} className="font-medium hover:underline">
+            {formatQuoteNo(quotation)}
+          </Link>
+        </p>
+      )}
+
+      <ol className="space-y-1 text-sm">
+        {[...order.status_history].reverse().map((change, index) => (
+          <li key={`${change.status}-${index}`} className="flex flex-wrap gap-x-2">
+            <span className="font-medium">{ORDER_STATUS_LABELS[change.status]}</span>
+            <span className="text-muted-foreground">
+              {format(new Date(change.changed_at), "dd/MM/yyyy (HH:mm)")}
+              {change.changed_by && ` by ${change.changed_by}`}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
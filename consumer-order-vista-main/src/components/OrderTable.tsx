@@ -1,96 +1,244 @@
 
-import React, { useState } from "react";
-import { SaleOrder, OrderStatus } from "@/types";
+import React from "react";
+import { Customer, SaleOrder, SaleOrderSortField, SortOrder } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { MoreHorizontal } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowDown, ArrowUp, ArrowUpDown, Ban, FileDown, MoreHorizontal, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/gst";
 import { format } from "date-fns";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@/api";
-import { toast } from "@/hooks/use-toast";
+import { Link } from "react-router-dom";
+import { customerPath } from "@/lib/routes";
+import { CustomerAvatar } from "@/components/CustomerAvatar";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
+import { canCancelOrder, canReturnOrder, isOrderEditable, isOrderVoid } from "@/lib/orders";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface OrderTableProps {
   orders: SaleOrder[];
-  status: OrderStatus;
+  // Used to link each order to its customer's page
+  customers: Customer[];
+  total: number;
+  page: number;
+  pageSize: number;
+  sortBy: SaleOrderSortField;
+  sortOrder: SortOrder;
+  onPageChange: (page: number) => void;
+  onSortChange: (field: SaleOrderSortField) => void;
   onEditOrder: (order: SaleOrder) => void;
   onViewOrder: (order: SaleOrder) => void;
+  onRecordPayment: (order: SaleOrder) => void;
+  onCancelOrder: (order: SaleOrder) => void;
+  onReturnOrder: (order: SaleOrder) => void;
+  onDownloadInvoice: (order: SaleOrder) => void;
 }
 
+// Page numbers to render, collapsing long runs into ellipses
+const getPageItems = (page: number, pageCount: number): (number | "ellipsis")[] => {
+  if (pageCount <= 7) {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const items: (number | "ellipsis")[] = [1];
+  const start = Math.max(2, page - 1);
+  const end = Math.min(pageCount - 1, page + 1);
+
+  if (start > 2) items.push("ellipsis");
+  for (let i = start; i <= end; i++) items.push(i);
+  if (end < pageCount - 1) items.push("ellipsis");
+  items.push(pageCount);
+
+  return items;
+};
+
+interface SortableHeadProps {
+  field: SaleOrderSortField;
+  label: string;
+  sortBy: SaleOrderSortField;
+  sortOrder: SortOrder;
+  onSortChange: (field: SaleOrderSortField) => void;
+}
+
+const SortableHead: React.FC<SortableHeadProps> = ({
+  field,
+  label,
+  sortBy,
+  sortOrder,
+  onSortChange,
+}) => {
+  const isActive = sortBy === field;
+  const Icon = !isActive ? ArrowUpDown : sortOrder === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      className="font-medium"
+      aria-sort={isActive ? (sortOrder === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-3 h-8 font-medium"
+        onClick={() => onSortChange(field)}
+      >
+        {label}
+        <Icon className={cn("ml-2 h-4 w-4", !isActive && "text-muted-foreground")} />
+      </Button>
+    </TableHead>
+  );
+};
+
+// Customer name linking to their page; plain text if the customer has since been deleted
+const OrderCustomer: React.FC<{ order: SaleOrder; customers: Customer[] }> = ({ order, customers }) => {
+  const customer = customers.find((c) => c.customer_profile.id === order.customer_id);
+  const profile = customer?.customer_profile || { name: order.customer_name, color: [], profile_pic: null };
+
+  return (
+    <div className="flex items-center gap-2">
+      <CustomerAvatar profile={profile} />
+      {customer ? (
+        <Link to={customerPath(customer.id)} className="hover:underline">
+          {order.customer_name}
+        </Link>
+      ) : (
+        <span>{order.customer_name}</span>
+      )}
+      <span className="text-muted-foreground text-xs">#{order.customer_id}</span>
+    </div>
+  );
+};
+
 export const OrderTable: React.FC<OrderTableProps> = ({
   orders,
-  status,
+  customers,
+  total,
+  page,
+  pageSize,
+  sortBy,
+  sortOrder,
+  onPageChange,
+  onSortChange,
   onEditOrder,
   onViewOrder,
+  onRecordPayment,
+  onCancelOrder,
+  onReturnOrder,
+  onDownloadInvoice,
 }) => {
-  const queryClient = useQueryClient();
-
-  const markAsPaidMutation = useMutation({
-    mutationFn: (orderId: number) => api.markOrderAsPaid(orderId),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
-      toast({
-        title: "Order marked as paid",
-        description: "The order has been successfully marked as paid.",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Failed to mark order as paid",
-        description: error instanceof Error ? error.message : "An error occurred",
-        variant: "destructive",
-      });
-    },
-  });
-
-  const handleMarkAsPaid = (orderId: number) => {
-    markAsPaidMutation.mutate(orderId);
+  const { hasPermission } = useAuth();
+
+  // Orders are read-only once packed, and when fully paid except for admins
+  const canEdit = (order: SaleOrder) =>
+    isOrderEditable(order) &&
+    hasPermission(order.payment_status === "paid" ? "orders:edit_completed" : "orders:edit");
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstRow = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, total);
+  const sortProps = { sortBy, sortOrder, onSortChange };
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
   };
 
   return (
-    <div className="rounded-md border">
-      <Table>
-        <TableHeader>
-          <TableRow className="bg-accent">
-            <TableHead className="font-medium">ID</TableHead>
-            <TableHead className="font-medium">Customer Name</TableHead>
-            <TableHead className="font-medium">Price (₹)</TableHead>
-            <TableHead className="font-medium">Last Modified</TableHead>
-            <TableHead className="text-right font-medium">Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {orders.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={5} className="h-24 text-center">
-                No orders found.
-              </TableCell>
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-accent">
+              <SortableHead field="id" label="ID" {...sortProps} />
+              <SortableHead field="customer_name" label="Customer Name" {...sortProps} />
+              <SortableHead field="invoice_date" label="Invoice" {...sortProps} />
+              <TableHead className="font-medium">Status</TableHead>
+              <SortableHead field="total_price" label="Taxable (₹)" {...sortProps} />
+              <TableHead className="font-medium">GST (₹)</TableHead>
+              <SortableHead field="grand_total" label="Total (₹)" {...sortProps} />
+              <TableHead className="font-medium">Balance (₹)</TableHead>
+              <SortableHead field="last_modified" label="Last Modified" {...sortProps} />
+              <TableHead className="text-right font-medium">Actions</TableHead>
             </TableRow>
-          ) : (
-            orders.map((order) => (
-              <TableRow key={order.id}>
-                <TableCell>{order.id}</TableCell>
-                <TableCell className="font-medium">
-                  <div className="flex items-center gap-2">
-                    <div 
-                      className="w-8 h-8 rounded-full flex items-center justify-center text-white"
-                      style={{ 
-                        backgroundColor: `rgb(${order.customer_id % 255}, ${(order.customer_id * 2) % 255}, ${(order.customer_id * 3) % 255})` 
-                      }}
-                    >
-                      {order.customer_name.charAt(0)}
-                    </div>
-                    <span>{order.customer_name}</span>
-                    <span className="text-muted-foreground text-xs">#{order.customer_id}</span>
-                  </div>
+          </TableHeader>
+          <TableBody>
+            {orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="h-24 text-center">
+                  No orders found.
                 </TableCell>
-                <TableCell>₹{order.total_price}</TableCell>
-                <TableCell>
-                  {format(new Date(order.last_modified), "dd/MM/yyyy (HH:mm)")}
-                </TableCell>
-                <TableCell className="text-right">
-                  <div className="flex justify-end gap-2">
-                    {status === "active" ? (
+              </TableRow>
+            ) : (
+              orders.map((order) => (
+                <TableRow key={order.id}>
+                  <TableCell>{order.id}</TableCell>
+                  <TableCell className="font-medium">
+                    <OrderCustomer order={order} customers={customers} />
+                  </TableCell>
+                  <TableCell>
+                    <div>{order.invoice_no}</div>
+                    <div className="text-muted-foreground text-xs">
+                      {format(new Date(order.invoice_date), "dd/MM/yyyy")}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <OrderStatusBadge status={order.status} />
+                  </TableCell>
+                  <TableCell>{formatCurrency(order.total_price)}</TableCell>
+                  <TableCell>
+                    <div>{formatCurrency(order.tax?.total_tax)}</div>
+                    {order.tax && (
+                      <div className="text-muted-foreground text-xs">
+                        {order.tax.supply_type === "intra_state"
+                          ? `CGST ${formatCurrency(order.tax.cgst)} + SGST ${formatCurrency(order.tax.sgst)}`
+                          : `IGST ${formatCurrency(order.tax.igst)}`}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {formatCurrency(order.grand_total ?? order.total_price)}
+                  </TableCell>
+                  <TableCell>
+                    {isOrderVoid(order) ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : (
                       <>
+                        <div>{formatCurrency(order.balance_due)}</div>
+                        <PaymentStatusBadge status={order.payment_status} className="mt-1" />
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(order.last_modified), "dd/MM/yyyy (HH:mm)")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Download invoice"
+                        onClick={() => onDownloadInvoice(order)}
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                      {canEdit(order) ? (
                         <Button 
                           variant="outline" 
                           size="sm" 
@@ -98,23 +246,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
                         >
                           Edit
                         </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => handleMarkAsPaid(order.id)}
-                        >
-                          Mark as Paid
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="icon"
-                          onClick={() => onEditOrder(order)}
-                        >
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </>
-                    ) : (
-                      <>
+                      ) : (
                         <Button 
                           variant="outline" 
                           size="sm" 
@@ -122,22 +254,103 @@ export const OrderTable: React.FC<OrderTableProps> = ({
                         >
                           View
                         </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="icon"
-                          onClick={() => onViewOrder(order)}
+                      )}
+                      {!isOrderVoid(order) && order.balance_due > 0 && hasPermission("payments:record") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onRecordPayment(order)}
                         >
-                          <MoreHorizontal className="h-4 w-4" />
+                          Record Payment
                         </Button>
-                      </>
-                    )}
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))
-          )}
-        </TableBody>
-      </Table>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" title="More actions">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onSelect={() => (canEdit(order) ? onEditOrder(order) : onViewOrder(order))}
+                          >
+                            {canEdit(order) ? "Edit" : "View"}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => onDownloadInvoice(order)}>
+                            Download invoice
+                          </DropdownMenuItem>
+                          {canReturnOrder(order) && hasPermission("orders:return") && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem onSelect={() => onReturnOrder(order)}>
+                                <Undo2 className="mr-2 h-4 w-4" /> Return items
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {canCancelOrder(order) && hasPermission("orders:cancel") && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive focus:text-destructive"
+                                onSelect={() => onCancelOrder(order)}
+                              >
+                                <Ban className="mr-2 h-4 w-4" /> Cancel order
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-col items-center gap-2 sm:flex-row sm:justify-between">
+        <p className="text-sm text-muted-foreground whitespace-nowrap">
+          Showing {firstRow}–{lastRow} of {total} orders
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="sm:mx-0 sm:w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={page === 1}
+                  className={cn(page === 1 && "pointer-events-none opacity-50")}
+                  onClick={(e) => goToPage(e, page - 1)}
+                />
+              </PaginationItem>
+              {getPageItems(page, pageCount).map((item, index) => (
+                <PaginationItem key={`${item}-${index}`}>
+                  {item === "ellipsis" ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={item === page}
+                      onClick={(e) => goToPage(e, item)}
+                    >
+                      {item}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={page === pageCount}
+                  className={cn(page === pageCount && "pointer-events-none opacity-50")}
+                  onClick={(e) => goToPage(e, page + 1)}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,182 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ValidationError } from "@/api";
+import { PaymentFormData, PaymentMode } from "@/types";
+import { formatCurrency } from "@/lib/gst";
+import {
+  PAYMENT_MODE_LABELS,
+  PAYMENT_REFERENCE_LABELS,
+  requiresPaymentReference,
+} from "@/lib/payments";
+
+const PAYMENT_MODES = Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[];
+
+const paymentFormSchema = (balanceDue: number) =>
+  z
+    .object({
+      amount: z
+        .number({ invalid_type_error: "Amount is required" })
+        .positive("Amount must be more than zero")
+        .refine((value) => Math.round(value * 100) <= Math.round(balanceDue * 100), {
+          message: `Only ${formatCurrency(balanceDue)} is due on this order`,
+        }),
+      payment_date: z
+        .string()
+        .min(1, "Payment date is required")
+        .refine((value) => value <= format(new Date(), "yyyy-MM-dd"), "Payment date can't be in the future"),
+      mode: z.enum(PAYMENT_MODES as [PaymentMode, ...PaymentMode[]]),
+      reference: z.string().trim(),
+    })
+    .refine((data) => !requiresPaymentReference(data.mode) || data.reference.length > 0, {
+      path: ["reference"],
+      message: "Reference is required for this payment mode",
+    });
+
+type PaymentFormValues = z.infer<ReturnType<typeof paymentFormSchema>>;
+
+interface PaymentFormProps {
+  balanceDue: number;
+  onSubmit: (data: PaymentFormData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const PaymentForm: React.FC<PaymentFormProps> = ({
+  balanceDue,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentFormSchema(balanceDue)),
+    defaultValues: {
+      amount: balanceDue,
+      payment_date: format(new Date(), "yyyy-MM-dd"),
+      mode: "upi",
+      reference: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as keyof PaymentFormValues, { type: "server", message });
+    });
+  }, [submitError, form]);
+
+  const mode = form.watch("mode");
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => onSubmit(values as PaymentFormData))}
+        className="grid grid-cols-1 md:grid-cols-2 gap-4"
+      >
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Amount (₹)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="payment_date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Payment date</FormLabel>
+              <FormControl>
+                <Input type="date" max={format(new Date(), "yyyy-MM-dd")} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="mode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mode</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PAYMENT_MODES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {PAYMENT_MODE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reference"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {PAYMENT_REFERENCE_LABELS[mode]}
+                {!requiresPaymentReference(mode) && " (optional)"}
+              </FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="md:col-span-2 flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Record Payment"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,17 @@
+import React from "react";
+import { PaymentStatus } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { PAYMENT_STATUS_LABELS } from "@/lib/payments";
+import { cn } from "@/lib/utils";
+
+export const PaymentStatusBadge: React.FC<{ status: PaymentStatus; className?: string }> = ({
+  status,
+  className,
+}) => (
+  <Badge
+    variant={status === "paid" ? "secondary" : "outline"}
+    className={cn(status === "partially_paid" && "border-amber-500 text-amber-600", className)}
+  >
+    {PAYMENT_STATUS_LABELS[status]}
+  </Badge>
+);
@@ -0,0 +1,202 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ValidationError } from "@/api";
+import { GstRate, Product, ProductFormData } from "@/types";
+import { GST_RATES } from "@/lib/gst";
+import { HSN_PATTERN } from "@/lib/products";
+
+const productFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  brand: z.string().trim().min(1, "Brand is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  characteristics: z.string().trim(),
+  features: z.string().trim(),
+  hsn_code: z.string().trim().regex(HSN_PATTERN, "Enter a 4, 6 or 8 digit HSN code"),
+  gst_rate: z.string().min(1, "Choose a GST rate"),
+});
+
+type ProductFormValues = z.infer<typeof productFormSchema>;
+
+interface ProductFormProps {
+  initialData?: Product;
+  onSubmit: (data: ProductFormData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const ProductForm: React.FC<ProductFormProps> = ({
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: {
+      name: initialData?.name || "",
+      brand: initialData?.brand || "",
+      category: initialData?.category || "",
+      characteristics: initialData?.characteristics || "",
+      features: initialData?.features || "",
+      hsn_code: initialData?.hsn_code || "",
+      gst_rate: String(initialData?.gst_rate ?? 18),
+    },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as keyof ProductFormValues, { type: "server", message });
+    });
+  }, [submitError, form]);
+
+  const handleSubmit = (values: ProductFormValues) => {
+    onSubmit({ ...values, gst_rate: Number(values.gst_rate) as GstRate } as ProductFormData);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Product name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="brand"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Brand</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="hsn_code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>HSN code</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" maxLength={8} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="gst_rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>GST rate</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {GST_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="characteristics"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Characteristics</FormLabel>
+                <FormControl>
+                  <Textarea {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="features"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Features</FormLabel>
+                <FormControl>
+                  <Textarea {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : initialData ? "Save Product" : "Create Product"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
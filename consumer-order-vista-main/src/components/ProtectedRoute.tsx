@@ -0,0 +1,18 @@
+import React from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { ReturnToState } from "@/lib/routes";
+
+// Renders nested routes only for signed-in users. Everyone else goes to the
+// login page, which sends them back here afterwards.
+export const ProtectedRoute: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    const state: ReturnToState = { from: location };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,233 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Calendar as CalendarIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Customer, Product, Quotation, QuotationFormData } from "@/types";
+import { ValidationError } from "@/api";
+import { isCustomerActive } from "@/lib/customers";
+import { getDefaultValidUntil } from "@/lib/quotations";
+import { orderItemsSchema } from "@/lib/orders";
+import { OrderItemsEditor } from "@/components/OrderItemsEditor";
+
+const quotationFormSchema = z
+  .object({
+    customer_id: z.number({
+      required_error: "Please select a customer",
+    }),
+    quote_date: z.date({
+      required_error: "Quote date is required",
+    }),
+    valid_until: z.date({
+      required_error: "Validity date is required",
+    }),
+    items: orderItemsSchema,
+    notes: z.string().trim(),
+  })
+  .refine((data) => data.valid_until >= data.quote_date, {
+    path: ["valid_until"],
+    message: "Must be on or after the quote date",
+  });
+
+type QuotationFormValues = z.infer<typeof quotationFormSchema>;
+
+const DATE_FIELDS = [
+  { name: "quote_date", label: "Quote Date" },
+  { name: "valid_until", label: "Valid Until" },
+] as const;
+
+interface QuotationFormProps {
+  initialData?: Quotation;
+  customers: Customer[];
+  products: Product[];
+  onSubmit: (data: QuotationFormData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const QuotationForm: React.FC<QuotationFormProps> = ({
+  initialData,
+  customers,
+  products,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  // Deactivated customers stay selectable only on quotes that already have them
+  const customerOptions = customers.filter(
+    (c) => isCustomerActive(c) || c.customer_profile.id === initialData?.customer_id
+  );
+
+  const form = useForm<QuotationFormValues>({
+    resolver: zodResolver(quotationFormSchema),
+    defaultValues: initialData
+      ? {
+          customer_id: initialData.customer_id,
+          quote_date: new Date(initialData.quote_date),
+          valid_until: new Date(initialData.valid_until),
+          items: initialData.items.map((item) => ({
+            sku_id: item.sku_id,
+            price: item.price,
+            quantity: item.quantity,
+          })),
+          notes: initialData.notes,
+        }
+      : {
+          customer_id: customerOptions[0]?.customer_profile.id || 0,
+          quote_date: new Date(),
+          valid_until: getDefaultValidUntil(new Date()),
+          items: [],
+          notes: "",
+        },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as Parameters<typeof form.setError>[0], {
+        type: "server",
+        message,
+      });
+    });
+  }, [submitError, form]);
+
+  const handleSubmit = (values: QuotationFormValues) =>
+    onSubmit({
+      customer_id: values.customer_id,
+      items: values.items as QuotationFormData["items"],
+      quote_date: format(values.quote_date, "yyyy-MM-dd"),
+      valid_until: format(values.valid_until, "yyyy-MM-dd"),
+      notes: values.notes,
+    });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <FormField
+            control={form.control}
+            name="customer_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Customer</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(Number(value))}
+                  defaultValue={String(field.value)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a customer" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {customerOptions.map((customer) => (
+                      <SelectItem
+                        key={customer.customer_profile.id}
+                        value={String(customer.customer_profile.id)}
+                      >
+                        {customer.customer_profile.name} - {customer.customer_profile.location_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {DATE_FIELDS.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>{label}</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-full pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value ? format(field.value, "dd/MM/yyyy") : <span>Pick a date</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        initialFocus
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <Separator className="my-4" />
+
+        <OrderItemsEditor
+          title="Quoted Items"
+          customers={customers}
+          products={products}
+          savedItems={initialData?.items}
+          reservesStock={false}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Delivery terms, discounts agreed..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : initialData ? "Save New Version" : "Create Quotation"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,17 @@
+import React from "react";
+import { QuotationStatus } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { QUOTATION_STATUS_LABELS } from "@/lib/quotations";
+import { cn } from "@/lib/utils";
+
+export const QuotationStatusBadge: React.FC<{ status: QuotationStatus; className?: string }> = ({
+  status,
+  className,
+}) => (
+  <Badge
+    variant={status === "open" ? "outline" : "secondary"}
+    className={cn(status === "converted" && "bg-green-100 text-green-800", className)}
+  >
+    {QUOTATION_STATUS_LABELS[status]}
+  </Badge>
+);
@@ -0,0 +1,76 @@
+import React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw } from "lucide-react";
+import { api } from "@/api";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+
+export const ResetDemoDataButton: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+
+  const resetMutation = useMutation({
+    mutationFn: () => api.resetDemoData(),
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Demo data reset",
+        description: "Customers, products and orders have been restored to the demo defaults.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to reset demo data",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Real backends don't expose a reset, and only admins may use the demo one
+  if (!api.resetDemoData || !hasPermission("demo:reset")) {
+    return null;
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Reset demo data"
+          disabled={resetMutation.isPending}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset demo data?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This discards every change made in this browser and restores the
+            original demo customers, products and sale orders.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => resetMutation.mutate()}>
+            Reset
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ValidationError } from "@/api";
+import { CreditNote, ReturnFormData, SaleOrder } from "@/types";
+import { calculateTax, formatCurrency, getGrandTotal } from "@/lib/gst";
+import { getReturnableQuantities } from "@/lib/orders";
+
+const returnFormSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        line: z.number(),
+        quantity: z.coerce
+          .number()
+          .int("Quantity must be a whole number")
+          .min(0, "Quantity can't be negative"),
+      })
+    )
+    .refine((items) => items.some((item) => item.quantity > 0), {
+      message: "Choose at least one item to return",
+    }),
+  note: z.string().trim(),
+});
+
+type ReturnFormValues = z.infer<typeof returnFormSchema>;
+
+interface ReturnFormProps {
+  order: SaleOrder;
+  // Credit notes already issued against the order
+  creditNotes: CreditNote[];
+  onSubmit: (data: ReturnFormData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const ReturnForm: React.FC<ReturnFormProps> = ({
+  order,
+  creditNotes,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const returnable = getReturnableQuantities(order, creditNotes);
+
+  const form = useForm<ReturnFormValues>({
+    resolver: zodResolver(
+      returnFormSchema.superRefine((values, ctx) => {
+        values.items.forEach((item, index) => {
+          const available = returnable[item.line] || 0;
+
+          if (item.quantity > available) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["items", index, "quantity"],
+              message: `Only ${available} left to return`,
+            });
+          }
+        });
+      })
+    ),
+    defaultValues: {
+      items: order.items.map((_, line) => ({ line, quantity: 0 })),
+      note: "",
+    },
+  });
+
+  const { fields } = useFieldArray({ control: form.control, name: "items" });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as Parameters<typeof form.setError>[0], {
+        type: "server",
+        message,
+      });
+    });
+  }, [submitError, form]);
+
+  const itemsError =
+    form.formState.errors.items?.message || form.formState.errors.items?.root?.message;
+
+  // Live preview of what the credit note will come to
+  const values = form.watch("items");
+  const returnedItems = order.items
+    .map((item, index) => ({ ...item, quantity: Number(values[index]?.quantity) || 0 }))
+    .filter((item) => item.quantity > 0);
+  const creditTotal = getGrandTotal(calculateTax(returnedItems, order.tax.supply_type));
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => onSubmit(values as ReturnFormData))}
+        className="space-y-4"
+      >
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">Item</TableHead>
+                <TableHead className="text-right font-medium">Sold</TableHead>
+                <TableHead className="text-right font-medium">Returnable</TableHead>
+                <TableHead className="w-28 font-medium">Return</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field, index) => {
+                const item = order.items[index];
+                const available = returnable[index] || 0;
+
+                return (
+                  <TableRow key={field.id}>
+                    <TableCell>
+                      <div>{item.product_name}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {formatCurrency(item.price)} · GST {item.gst_rate}%
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{available}</TableCell>
+                    <TableCell>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={available}
+                                disabled={available === 0}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {itemsError && <p className="text-sm font-medium text-destructive">{itemsError}</p>}
+
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reason (optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Damaged in transit, wrong item sent..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm">
+            <span className="text-muted-foreground">Credit incl. GST: </span>
+            <span className="font-medium">{formatCurrency(creditTotal)}</span>
+          </div>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Recording..." : "Record Return"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
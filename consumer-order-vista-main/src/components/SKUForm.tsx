@@ -0,0 +1,319 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ValidationError } from "@/api";
+import { GstRate, Product, SKU, SKUFormData } from "@/types";
+import { GST_RATES } from "@/lib/gst";
+import { MRP_ERROR, SKU_UNITS } from "@/lib/products";
+
+// Select value standing for "use the product's GST rate"
+const PRODUCT_RATE = "product";
+
+const price = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} is required` })
+    .positive(`${label} must be a positive number`);
+
+const wholeNumber = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} is required` })
+    .int(`${label} must be a whole number`)
+    .min(0, `${label} can't be negative`);
+
+const skuFormSchema = z
+  .object({
+    amount: z
+      .number({ invalid_type_error: "Amount is required" })
+      .positive("Amount must be more than zero"),
+    unit: z.string().trim().min(1, "Unit is required"),
+    selling_price: price("Selling price"),
+    max_retail_price: price("MRP"),
+    gst_rate: z.string(),
+    opening_stock: z
+      .number({ invalid_type_error: "Opening stock is required" })
+      .int("Opening stock must be a whole number")
+      .min(0, "Opening stock can't be negative"),
+    reorder_level: wholeNumber("Reorder level"),
+    reorder_quantity: wholeNumber("Reorder quantity"),
+  })
+  .refine((data) => data.selling_price <= data.max_retail_price, {
+    path: ["selling_price"],
+    message: MRP_ERROR,
+  });
+
+type SKUFormValues = z.infer<typeof skuFormSchema>;
+
+interface SKUFormProps {
+  product: Product;
+  initialData?: SKU;
+  onSubmit: (data: SKUFormData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const SKUForm: React.FC<SKUFormProps> = ({
+  product,
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const form = useForm<SKUFormValues>({
+    resolver: zodResolver(skuFormSchema),
+    defaultValues: {
+      amount: initialData?.amount,
+      unit: initialData?.unit || SKU_UNITS[0],
+      selling_price: initialData?.selling_price,
+      max_retail_price: initialData?.max_retail_price,
+      gst_rate: initialData?.gst_rate != null ? String(initialData.gst_rate) : PRODUCT_RATE,
+      // Existing SKUs change stock through the inventory page, not here
+      opening_stock: initialData ? initialData.quantity_in_inventory : 0,
+      reorder_level: initialData?.reorder_level ?? 0,
+      reorder_quantity: initialData?.reorder_quantity ?? 0,
+    },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as keyof SKUFormValues, { type: "server", message });
+    });
+  }, [submitError, form]);
+
+  const handleSubmit = (values: SKUFormValues) => {
+    onSubmit({
+      ...values,
+      gst_rate: values.gst_rate === PRODUCT_RATE ? null : (Number(values.gst_rate) as GstRate),
+      is_retired: !!initialData?.is_retired,
+    } as SKUFormData);
+  };
+
+  // Keep a unit from older data selectable even if it's no longer in the list
+  const units = initialData && !SKU_UNITS.includes(initialData.unit)
+    ? [...SKU_UNITS, initialData.unit]
+    : SKU_UNITS;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="any"
+                    placeholder="e.g. 500"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Unit</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {units.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="selling_price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Selling price (₹)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="any"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="max_retail_price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>MRP (₹)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="any"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gst_rate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>GST rate</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={PRODUCT_RATE}>Same as product ({product.gst_rate}%)</SelectItem>
+                    {GST_RATES.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>
+                        {rate}%
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="opening_stock"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{initialData ? "In stock" : "Opening stock"}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={1}
+                    disabled={!!initialData}
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+                {initialData && (
+                  <FormDescription>Use Adjust on the inventory page to change stock.</FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reorder_level"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reorder level</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={1}
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+                <FormDescription>Flagged as low stock at or below this; 0 for only when out of stock.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reorder_quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reorder quantity</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={1}
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+                <FormDescription>Suggested quantity on the reorder list.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : initialData ? "Save SKU" : "Add SKU"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
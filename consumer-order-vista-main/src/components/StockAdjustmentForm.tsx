@@ -0,0 +1,170 @@
+import React, { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ValidationError } from "@/api";
+import { SKU, StockAdjustmentData } from "@/types";
+import { STOCK_MOVEMENT_REASON_LABELS } from "@/lib/inventory";
+
+const stockAdjustmentSchema = z
+  .object({
+    reason: z.enum(["goods_received", "manual_adjustment"]),
+    quantity: z
+      .number({ invalid_type_error: "Quantity is required" })
+      .int("Quantity must be a whole number")
+      .refine((value) => value !== 0, "Quantity cannot be zero"),
+    note: z.string().default(""),
+  })
+  .refine((data) => data.reason !== "goods_received" || data.quantity > 0, {
+    path: ["quantity"],
+    message: "Goods received must be a positive quantity",
+  })
+  .refine((data) => data.reason !== "manual_adjustment" || data.note.trim().length > 0, {
+    path: ["note"],
+    message: "Explain why stock is being adjusted",
+  });
+
+type StockAdjustmentFormValues = z.infer<typeof stockAdjustmentSchema>;
+
+interface StockAdjustmentFormProps {
+  sku: SKU;
+  onSubmit: (data: StockAdjustmentData) => void;
+  isSubmitting: boolean;
+  submitError?: unknown;
+}
+
+export const StockAdjustmentForm: React.FC<StockAdjustmentFormProps> = ({
+  sku,
+  onSubmit,
+  isSubmitting,
+  submitError,
+}) => {
+  const form = useForm<StockAdjustmentFormValues>({
+    resolver: zodResolver(stockAdjustmentSchema),
+    defaultValues: {
+      reason: "goods_received",
+      quantity: undefined,
+      note: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!(submitError instanceof ValidationError)) return;
+
+    Object.entries(submitError.fieldErrors).forEach(([name, message]) => {
+      form.setError(name as keyof StockAdjustmentFormValues, { type: "server", message });
+    });
+  }, [submitError, form]);
+
+  const reason = form.watch("reason");
+
+  const handleSubmit = (values: StockAdjustmentFormValues) => {
+    onSubmit({
+      sku_id: sku.id,
+      reason: values.reason,
+      quantity: values.quantity,
+      note: values.note,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reason</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="goods_received">
+                    {STOCK_MOVEMENT_REASON_LABELS.goods_received}
+                  </SelectItem>
+                  <SelectItem value="manual_adjustment">
+                    {STOCK_MOVEMENT_REASON_LABELS.manual_adjustment}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="quantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {reason === "goods_received" ? "Quantity received" : "Change (use a negative number to remove stock)"}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step={1}
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={
+                    reason === "goods_received"
+                      ? "Supplier, GRN or delivery reference (optional)"
+                      : "Damaged, stock count correction, ..."
+                  }
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Record Movement"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,104 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { SKU } from "@/types";
+import { STOCK_MOVEMENT_REASON_LABELS } from "@/lib/inventory";
+import { cn } from "@/lib/utils";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+interface StockLedgerDialogProps {
+  sku: SKU | null;
+  productName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const StockLedgerDialog: React.FC<StockLedgerDialogProps> = ({
+  sku,
+  productName,
+  open,
+  onOpenChange,
+}) => {
+  const {
+    data: movements,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["stockMovements", sku?.id],
+    queryFn: () => api.getStockMovements(sku.id),
+    enabled: open && !!sku,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History</DialogTitle>
+          <DialogDescription>
+            {sku
+              ? `${productName} · ${sku.amount} ${sku.unit} (SKU #${sku.id}) · ${sku.quantity_in_inventory} in stock`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="py-8 text-center text-muted-foreground">Loading...</p>
+        ) : error ? (
+          <p className="py-8 text-center text-destructive">{getErrorMessage(error)}</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-accent">
+                  <TableHead className="font-medium">Date</TableHead>
+                  <TableHead className="font-medium">Reason</TableHead>
+                  <TableHead className="font-medium">Order</TableHead>
+                  <TableHead className="font-medium">Note</TableHead>
+                  <TableHead className="text-right font-medium">Change</TableHead>
+                  <TableHead className="text-right font-medium">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!movements || movements.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No stock movements recorded.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell>
+                        {format(new Date(movement.created_at), "dd/MM/yyyy (HH:mm)")}
+                      </TableCell>
+                      <TableCell>{STOCK_MOVEMENT_REASON_LABELS[movement.reason]}</TableCell>
+                      <TableCell>{movement.order_id ? `#${movement.order_id}` : "—"}</TableCell>
+                      <TableCell className="text-muted-foreground">{movement.note || "—"}</TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          movement.quantity < 0 ? "text-destructive" : "text-green-600"
+                        )}
+                      >
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </TableCell>
+                      <TableCell className="text-right">{movement.balance_after}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
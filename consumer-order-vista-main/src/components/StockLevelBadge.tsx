@@ -0,0 +1,23 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { StockLevel, STOCK_LEVEL_LABELS } from "@/lib/inventory";
+import { cn } from "@/lib/utils";
+
+interface StockLevelBadgeProps {
+  level: StockLevel;
+  className?: string;
+}
+
+// Renders nothing while stock is comfortably above the reorder level
+export const StockLevelBadge: React.FC<StockLevelBadgeProps> = ({ level, className }) => {
+  if (level === "in_stock") return null;
+
+  return (
+    <Badge
+      variant={level === "out_of_stock" ? "destructive" : "outline"}
+      className={cn(level === "low" && "border-amber-500 text-amber-600", className)}
+    >
+      {STOCK_LEVEL_LABELS[level]}
+    </Badge>
+  );
+};
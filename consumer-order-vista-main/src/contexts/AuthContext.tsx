@@ -1,9 +1,20 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { User } from '../types';
-import { api } from '../api';
+import { api, authSession, UnauthorizedError } from '../api';
+import { hasPermission as userHasPermission, Permission } from '../lib/permissions';
 import { useToast } from '../hooks/use-toast';
+import { useIdleTimeout } from '../hooks/use-idle-timeout';
+import { IdleTimeoutDialog } from '../components/IdleTimeoutDialog';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { getReturnTo } from '../lib/routes';
+
+// Sign out after this many minutes without keyboard, mouse or touch input
+const IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 15;
+const IDLE_WARNING_MS = 60 * 1000;
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
 
 interface AuthContextType {
   user: User | null;
@@ -11,51 +22,148 @@ interface AuthContextType {
   isLoading: boolean;
   login: (username: string, password: string) => Promise<void>;
   logout: () => void;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
+  // The session is read synchronously so the first render already knows who is signed in
+  const [user, setUser] = useState<User | null>(authSession.getUser);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
   const { toast } = useToast();
   const navigate = useNavigate();
   const location = useLocation();
+  const queryClient = useQueryClient();
+
+  // Clearing the token also signs out every other open tab. ProtectedRoute then
+  // sends the user to /login, remembering the page they were on.
+  const endSession = useCallback(() => {
+    setUser(null);
+    authSession.setToken(null);
+    queryClient.clear();
+  }, [queryClient]);
+
+  const handleUnauthorized = useCallback((error: UnauthorizedError) => {
+    endSession();
+    toast({
+      title: "Session ended",
+      description: error.message,
+      variant: "destructive",
+    });
+  }, [endSession, toast]);
 
   useEffect(() => {
-    // Check if user exists in local storage
-    const storedUser = localStorage.getItem('user');
-    
-    if (storedUser) {
+    // Swap the access token for a fresh one shortly before it expires
+    const expiresAt = authSession.getExpiresAt();
+    if (!user || expiresAt === null) return;
+
+    let cancelled = false;
+    let timeout = setTimeout(async () => {
       try {
-        setUser(JSON.parse(storedUser));
+        const token = await api.refreshToken();
+        if (cancelled) return;
+        authSession.setToken(token.access_token);
+        setUser(authSession.getUser());
       } catch (error) {
-        console.error('Failed to parse stored user:', error);
-        localStorage.removeItem('user');
+        if (cancelled) return;
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized(error);
+        } else {
+          // Couldn't reach the server; keep the session until the token runs out
+          timeout = setTimeout(
+            () => handleUnauthorized(new UnauthorizedError()),
+            Math.max(0, expiresAt - Date.now())
+          );
+        }
       }
-    }
-    
-    setIsLoading(false);
-  }, []);
+    }, Math.max(0, expiresAt - REFRESH_MARGIN_MS - Date.now()));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [user, handleUnauthorized]);
 
   useEffect(() => {
-    // Redirect unauthenticated users to login page
-    if (!isLoading && !user && location.pathname !== '/login') {
-      navigate('/login', { replace: true });
-    }
-  }, [user, isLoading, navigate, location.pathname]);
+    // Follow logins, token refreshes and logouts from other tabs
+    return authSession.subscribe((nextUser) => {
+      if (!nextUser) {
+        if (!user) return;
+        setUser(null);
+        queryClient.clear();
+        toast({
+          title: "Logged out",
+          description: "You were logged out in another tab",
+        });
+        return;
+      }
+
+      if (nextUser.username !== user?.username) {
+        queryClient.clear();
+      }
+      setUser(nextUser);
+      if (location.pathname === '/login') {
+        navigate(getReturnTo(location.state), { replace: true });
+      }
+    });
+  }, [user, queryClient, toast, navigate, location]);
+
+  const handleIdle = useCallback(() => {
+    endSession();
+    navigate('/login', { replace: true });
+    toast({
+      title: "Logged out",
+      description: `You were logged out after ${IDLE_TIMEOUT_MINUTES} minutes of inactivity`,
+    });
+  }, [endSession, navigate, toast]);
+
+  const idle = useIdleTimeout({
+    enabled: !!user,
+    timeoutMs: IDLE_TIMEOUT_MINUTES * 60 * 1000,
+    warningMs: IDLE_WARNING_MS,
+    onTimeout: handleIdle,
+  });
+
+  useEffect(() => {
+    // Any query or mutation rejected as unauthorized sends the user back to login
+    const unsubscribeQueries = queryClient.getQueryCache().subscribe((event) => {
+      if (
+        event.type === 'updated' &&
+        event.action.type === 'error' &&
+        event.action.error instanceof UnauthorizedError
+      ) {
+        handleUnauthorized(event.action.error);
+      }
+    });
+    const unsubscribeMutations = queryClient.getMutationCache().subscribe((event) => {
+      if (
+        event.type === 'updated' &&
+        event.action.type === 'error' &&
+        event.action.error instanceof UnauthorizedError
+      ) {
+        handleUnauthorized(event.action.error);
+      }
+    });
+
+    return () => {
+      unsubscribeQueries();
+      unsubscribeMutations();
+    };
+  }, [queryClient, handleUnauthorized]);
 
   const login = async (username: string, password: string) => {
     try {
       setIsLoading(true);
-      const userData = await api.login(username, password);
+      const token = await api.login(username, password);
+      authSession.setToken(token.access_token);
+      const userData = authSession.getUser();
       setUser(userData);
-      localStorage.setItem('user', JSON.stringify(userData));
       toast({
         title: "Login successful",
-        description: `Welcome back, ${userData.username}!`,
+        description: `Welcome back, ${userData?.username}!`,
       });
-      navigate('/', { replace: true });
+      navigate(getReturnTo(location.state), { replace: true });
     } catch (error) {
       toast({
         title: "Login failed",
@@ -68,19 +176,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // A deliberate logout starts the next user from the dashboard
   const logout = () => {
-    setUser(null);
-    localStorage.removeItem('user');
+    endSession();
+    navigate('/login', { replace: true });
     toast({
       title: "Logged out",
       description: "You have been successfully logged out",
     });
-    navigate('/login', { replace: true });
   };
 
+  const hasPermission = useCallback(
+    (permission: Permission) => userHasPermission(user, permission),
+    [user]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, isAuthenticated: !!user, isLoading, login, logout }}>
+    <AuthContext.Provider
+      value={{ user, isAuthenticated: !!user, isLoading, login, logout, hasPermission }}
+    >
       {children}
+      <IdleTimeoutDialog
+        open={idle.isWarning}
+        secondsLeft={idle.secondsLeft ?? 0}
+        onStayActive={idle.stayActive}
+        onLogout={logout}
+      />
     </AuthContext.Provider>
   );
 };
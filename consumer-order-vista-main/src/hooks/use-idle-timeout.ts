@@ -0,0 +1,77 @@
+import * as React from "react"
+
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keydown", "scroll", "touchstart", "wheel"]
+// Shared by every open tab, so working in one keeps the others signed in too
+const LAST_ACTIVITY_KEY = "last_activity"
+const WRITE_THROTTLE_MS = 5000
+
+interface IdleTimeoutOptions {
+  enabled: boolean
+  timeoutMs: number
+  warningMs: number
+  onTimeout: () => void
+}
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0
+
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, onTimeout }: IdleTimeoutOptions) {
+  const [secondsLeft, setSecondsLeft] = React.useState<number | null>(null)
+  const lastActivity = React.useRef(Date.now())
+  const warning = React.useRef(false)
+  const onTimeoutRef = React.useRef(onTimeout)
+  onTimeoutRef.current = onTimeout
+
+  const markActive = React.useCallback((force = false) => {
+    const now = Date.now()
+    if (force || now - lastActivity.current >= WRITE_THROTTLE_MS) {
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now))
+    }
+    lastActivity.current = now
+  }, [])
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setSecondsLeft(null)
+      warning.current = false
+      return
+    }
+
+    markActive(true)
+
+    // Once the warning is up only "Stay signed in" counts as activity
+    const handleActivity = () => {
+      if (!warning.current) markActive()
+    }
+
+    const tick = () => {
+      const idleFor = Date.now() - Math.max(lastActivity.current, readLastActivity())
+
+      if (idleFor >= timeoutMs) {
+        clearInterval(interval)
+        onTimeoutRef.current()
+      } else if (idleFor >= timeoutMs - warningMs) {
+        warning.current = true
+        setSecondsLeft(Math.ceil((timeoutMs - idleFor) / 1000))
+      } else if (warning.current) {
+        warning.current = false
+        setSecondsLeft(null)
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+    const interval = setInterval(tick, 1000)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+      clearInterval(interval)
+    }
+  }, [enabled, timeoutMs, warningMs, markActive])
+
+  const stayActive = React.useCallback(() => {
+    markActive(true)
+    warning.current = false
+    setSecondsLeft(null)
+  }, [markActive])
+
+  return { isWarning: secondsLeft !== null, secondsLeft, stayActive }
+}
@@ -0,0 +1,48 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Readers for query-string values; anything missing or malformed comes back as
+// the fallback or undefined, so a hand-edited link still opens a sensible view
+export const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T) =>
+  allowed.includes(value as T) ? (value as T) : fallback
+
+export const toNumber = (value: string | null) => {
+  const number = value === null || value === "" ? NaN : Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+export const toDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : undefined)
+
+// Empty values are left out, keeping links short
+export const toSearchParams = (entries: [string, string | number | undefined][]) => {
+  const params = new URLSearchParams()
+
+  entries.forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value))
+  })
+
+  return params
+}
+
+// List state (tab, filters, sort, page) kept in the query string, so views can
+// be bookmarked and back/forward steps through them. `parse` and `serialize`
+// should be defined at module level so they stay the same between renders.
+export function useListParams<T>(
+  parse: (params: URLSearchParams) => T,
+  serialize: (params: T) => URLSearchParams
+) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const params = React.useMemo(() => parse(searchParams), [parse, searchParams])
+
+  const setParams = React.useCallback(
+    (changes: Partial<T>, options: { replace?: boolean } = {}) => {
+      setSearchParams((current) => serialize({ ...parse(current), ...changes }), options)
+    },
+    [parse, serialize, setSearchParams]
+  )
+
+  return [params, setParams] as const
+}
@@ -0,0 +1,76 @@
+import { OrderStatus, PaymentStatus, SaleOrderFilters, SaleOrderSortField, SortOrder } from "@/types"
+import { ORDER_STATUS_LABELS } from "@/lib/orders"
+import { oneOf, toDate, toNumber, toSearchParams, useListParams } from "@/hooks/use-list-params"
+
+// Status tab; "all" shows orders in every status
+export type OrderStatusTab = OrderStatus | "all"
+
+export interface OrderListParams {
+  status: OrderStatusTab
+  filters: SaleOrderFilters
+  page: number
+  sortBy: SaleOrderSortField
+  sortOrder: SortOrder
+}
+
+const DEFAULTS: OrderListParams = {
+  status: "all",
+  filters: {},
+  page: 1,
+  sortBy: "last_modified",
+  sortOrder: "desc",
+}
+
+export const ORDER_STATUS_TABS: OrderStatusTab[] = [
+  "all",
+  ...(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]),
+]
+const PAYMENT_STATUSES: PaymentStatus[] = ["unpaid", "partially_paid", "paid"]
+const SORT_FIELDS: SaleOrderSortField[] = [
+  "id",
+  "customer_name",
+  "total_price",
+  "grand_total",
+  "invoice_date",
+  "last_modified",
+]
+
+// Anything missing or malformed in the URL falls back to the default
+const parseParams = (params: URLSearchParams): OrderListParams => {
+  const page = toNumber(params.get("page"))
+
+  return {
+    status: oneOf(params.get("tab"), ORDER_STATUS_TABS, DEFAULTS.status),
+    filters: {
+      search: params.get("q") || undefined,
+      customer_id: toNumber(params.get("customer")),
+      payment_status: PAYMENT_STATUSES.find((status) => status === params.get("payment")),
+      invoice_date_from: toDate(params.get("from")),
+      invoice_date_to: toDate(params.get("to")),
+      min_price: toNumber(params.get("min")),
+      max_price: toNumber(params.get("max")),
+    },
+    page: page && Number.isInteger(page) && page > 0 ? page : DEFAULTS.page,
+    sortBy: oneOf(params.get("sort"), SORT_FIELDS, DEFAULTS.sortBy),
+    sortOrder: oneOf(params.get("order"), ["asc", "desc"], DEFAULTS.sortOrder),
+  }
+}
+
+// Only values that differ from the defaults are written, keeping links short
+const toParams = ({ status, filters, page, sortBy, sortOrder }: OrderListParams) =>
+  toSearchParams([
+    ["tab", status !== DEFAULTS.status ? status : undefined],
+    ["q", filters.search],
+    ["customer", filters.customer_id],
+    ["payment", filters.payment_status],
+    ["from", filters.invoice_date_from],
+    ["to", filters.invoice_date_to],
+    ["min", filters.min_price],
+    ["max", filters.max_price],
+    ["sort", sortBy !== DEFAULTS.sortBy ? sortBy : undefined],
+    ["order", sortOrder !== DEFAULTS.sortOrder ? sortOrder : undefined],
+    ["page", page !== DEFAULTS.page ? page : undefined],
+  ])
+
+// Dashboard list state (tab, filters, sort, page) kept in the query string
+export const useOrderListParams = () => useListParams(parseParams, toParams)
@@ -0,0 +1,36 @@
+import { QuotationStatus } from "@/types"
+import { QUOTATION_STATUS_LABELS } from "@/lib/quotations"
+import { oneOf, toSearchParams, useListParams } from "@/hooks/use-list-params"
+
+// Status tab; "all" shows quotations in every status
+export type QuotationStatusTab = QuotationStatus | "all"
+
+export const QUOTATION_STATUS_TABS: QuotationStatusTab[] = [
+  "all",
+  ...(Object.keys(QUOTATION_STATUS_LABELS) as QuotationStatus[]),
+]
+
+export interface QuotationListParams {
+  status: QuotationStatusTab
+  search: string
+}
+
+const DEFAULTS: QuotationListParams = {
+  status: "all",
+  search: "",
+}
+
+const parseParams = (params: URLSearchParams): QuotationListParams => ({
+  status: oneOf(params.get("tab"), QUOTATION_STATUS_TABS, DEFAULTS.status),
+  search: params.get("q") || DEFAULTS.search,
+})
+
+const toParams = ({ status, search }: QuotationListParams) =>
+  toSearchParams([
+    ["tab", status !== DEFAULTS.status ? status : undefined],
+    ["q", search],
+  ])
+
+// Quotations list state (tab, search) kept in the query string, the same way
+// as the dashboard's order list
+export const useQuotationListParams = () => useListParams(parseParams, toParams)
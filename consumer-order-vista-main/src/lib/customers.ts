@@ -0,0 +1,111 @@
+import { CreditNote, Customer, SaleOrder } from "../types";
+import { isOrderVoid } from "./orders";
+
+// CustomerProfile.type codes
+export const CUSTOMER_TYPE_LABELS: Record<string, string> = {
+  C: "Consumer",
+  B: "Business",
+};
+
+export const isCustomerActive = (customer: Customer) => customer.is_active !== false;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// [r, g, b] <-> "#rrggbb" for colour inputs
+export const rgbToHex = (color: number[]) =>
+  `#${(color.length === 3 ? color : [128, 128, 128])
+    .map((channel) => Math.max(0, Math.min(255, Math.round(channel))).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+export const hexToRgb = (hex: string) => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return match ? match.slice(1).map((channel) => parseInt(channel, 16)) : [128, 128, 128];
+};
+
+export const matchesCustomerSearch = (customer: Customer, search: string) => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  const { name, email, pincode, location_name, gst } = customer.customer_profile;
+  return [name, email, pincode, location_name, gst].some((value) =>
+    value?.toLowerCase().includes(term)
+  );
+};
+
+export interface ProductSales {
+  name: string;
+  quantity: number;
+  value: number;
+}
+
+export interface CustomerOrderSummary {
+  orderCount: number;
+  paidCount: number;  // Orders paid in full
+  paidTotal: number;  // Received across all orders, including part payments
+  creditTotal: number;  // Credit notes issued for returns
+  unpaidTotal: number;  // Balance still due, less credit; negative when the customer is in credit
+  averageOrderValue: number;
+  lastOrderDate: string | null;
+  // Earliest invoice still unpaid, and how many days it has been open
+  oldestUnpaidDate: string | null;
+  oldestUnpaidDays: number;
+  topProducts: ProductSales[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Totals use grand totals (GST included), which is what the customer owes.
+// Cancelled orders are left out, except that anything paid on them is owed back;
+// returns are netted off through their credit notes.
+export const summarizeCustomerOrders = (
+  allOrders: SaleOrder[],
+  creditNotes: CreditNote[] = [],
+  now = new Date(),
+  topProductCount = 5
+): CustomerOrderSummary => {
+  const orders = allOrders.filter((order) => !isOrderVoid(order));
+  const voidOrders = allOrders.filter(isOrderVoid);
+  const orderTotal = (order: SaleOrder) => order.grand_total ?? order.total_price;
+  const paid = orders.filter((order) => order.payment_status === "paid");
+  const unpaid = orders.filter((order) => order.balance_due > 0);
+  const invoiceDates = orders.map((order) => order.invoice_date).sort();
+  const oldestUnpaidDate = unpaid.map((order) => order.invoice_date).sort()[0] || null;
+
+  const products = new Map<string, ProductSales>();
+  orders.forEach((order) =>
+    order.items.forEach((item) => {
+      const name = item.product_name || `SKU #${item.sku_id}`;
+      const entry = products.get(name) || { name, quantity: 0, value: 0 };
+      entry.quantity += item.quantity;
+      entry.value += item.price * item.quantity;
+      products.set(name, entry);
+    })
+  );
+
+  const sum = (list: SaleOrder[]) => list.reduce((total, order) => total + orderTotal(order), 0);
+  // A cancelled order's credit note reverses an invoice that is already left out
+  const creditTotal = creditNotes
+    .filter((note) => !voidOrders.some((order) => order.id === note.order_id))
+    .reduce((total, note) => total + note.grand_total, 0);
+  const refundTotal = voidOrders.reduce((total, order) => total + order.amount_received, 0);
+
+  return {
+    orderCount: orders.length,
+    paidCount: paid.length,
+    paidTotal: orders.reduce((total, order) => total + order.amount_received, 0),
+    creditTotal,
+    unpaidTotal:
+      Math.round(
+        (orders.reduce((total, order) => total + order.balance_due, 0) - creditTotal - refundTotal) * 100
+      ) / 100,
+    averageOrderValue: orders.length ? sum(orders) / orders.length : 0,
+    lastOrderDate: invoiceDates[invoiceDates.length - 1] || null,
+    oldestUnpaidDate,
+    oldestUnpaidDays: oldestUnpaidDate
+      ? Math.max(0, Math.floor((now.getTime() - new Date(oldestUnpaidDate).getTime()) / DAY_MS))
+      : 0,
+    topProducts: [...products.values()]
+      .sort((a, b) => b.value - a.value || b.quantity - a.quantity)
+      .slice(0, topProductCount),
+  };
+};
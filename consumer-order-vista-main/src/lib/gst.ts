@@ -0,0 +1,107 @@
+import {
+  BillingParty,
+  CustomerProfile,
+  GstRate,
+  OrderItem,
+  Product,
+  SKU,
+  SupplyType,
+  TaxBreakup,
+} from "../types";
+import { findStateInText, getStateByCode, IndianState } from "./states";
+import { getGstinStateCode } from "./gstin";
+import { getPincodeStateCode } from "./pincode";
+import { SELLER } from "./seller";
+
+export const GST_RATES: GstRate[] = [0, 5, 12, 18, 28];
+
+// Place of supply: the state a registered customer's GSTIN belongs to,
+// otherwise the state of their pincode, otherwise one named in their location
+export const getCustomerState = (
+  profile: Pick<CustomerProfile, "location_name" | "pincode"> & Partial<Pick<CustomerProfile, "gst">>
+): IndianState | undefined =>
+  getStateByCode(getGstinStateCode(profile.gst || "") || getPincodeStateCode(profile.pincode || "") || "") ||
+  findStateInText(profile.location_name || "");
+
+// The buyer block printed on an invoice, frozen when the invoice is issued
+export const getBillingParty = (
+  profile: Pick<CustomerProfile, "name" | "location_name" | "pincode" | "email" | "gst">
+): BillingParty => {
+  const state = getCustomerState(profile);
+
+  return {
+    name: profile.name,
+    location_name: profile.location_name || "",
+    pincode: profile.pincode || "",
+    email: profile.email || "",
+    gstin: profile.gst || "",
+    state_name: state?.name || SELLER.state_name,
+    state_code: state?.code || SELLER.state_code,
+  };
+};
+
+// Tax is split into CGST + SGST within the seller's state and charged as IGST
+// across states. An unknown customer state is treated as a local sale.
+export const getSupplyType = (sellerStateCode: string, customerState?: IndianState): SupplyType =>
+  !customerState || customerState.code === sellerStateCode ? "intra_state" : "inter_state";
+
+// A SKU can override its product's rate (e.g. a gift pack taxed differently)
+export const getSKUGstRate = (product: Pick<Product, "gst_rate">, sku: Pick<SKU, "gst_rate">): GstRate =>
+  sku.gst_rate ?? product.gst_rate ?? 0;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+type TaxLine = Pick<OrderItem, "price" | "quantity" | "gst_rate">;
+
+export interface LineTax {
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Line prices are tax-exclusive. Tax is worked out per line and rounded to the paisa.
+export const calculateLineTax = (item: TaxLine, supplyType: SupplyType): LineTax => {
+  const taxableValue = roundCurrency(item.price * item.quantity);
+  const tax = roundCurrency((taxableValue * (item.gst_rate || 0)) / 100);
+
+  if (supplyType === "inter_state") {
+    return { taxable_value: taxableValue, cgst: 0, sgst: 0, igst: tax };
+  }
+
+  const half = roundCurrency(tax / 2);
+  return { taxable_value: taxableValue, cgst: half, sgst: roundCurrency(tax - half), igst: 0 };
+};
+
+export const calculateTax = (items: TaxLine[], supplyType: SupplyType): TaxBreakup => {
+  const breakup: TaxBreakup = {
+    supply_type: supplyType,
+    taxable_value: 0,
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    total_tax: 0,
+  };
+
+  items.forEach((item) => {
+    const line = calculateLineTax(item, supplyType);
+    breakup.taxable_value += line.taxable_value;
+    breakup.cgst += line.cgst;
+    breakup.sgst += line.sgst;
+    breakup.igst += line.igst;
+  });
+
+  breakup.taxable_value = roundCurrency(breakup.taxable_value);
+  breakup.cgst = roundCurrency(breakup.cgst);
+  breakup.sgst = roundCurrency(breakup.sgst);
+  breakup.igst = roundCurrency(breakup.igst);
+  breakup.total_tax = roundCurrency(breakup.cgst + breakup.sgst + breakup.igst);
+
+  return breakup;
+};
+
+export const getGrandTotal = (tax: TaxBreakup) =>
+  roundCurrency(tax.taxable_value + tax.total_tax);
+
+export const formatCurrency = (value: number) =>
+  `₹${(value || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -0,0 +1,52 @@
+import { getStateByCode } from "./states";
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// 2-digit state code, 10-character PAN, entity number, "Z", check character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Fourth PAN character: the kind of holder (Person, Company, Firm, Trust, ...)
+const PAN_HOLDER_TYPES = "ABCEFGHJLPT";
+
+// Mod-36 check character over the first 14 characters (GSTN's published algorithm)
+export const getGstinCheckCharacter = (gstin: string) => {
+  const sum = gstin
+    .slice(0, 14)
+    .split("")
+    .reduce((total, char, index) => {
+      const product = GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+      return total + Math.floor(product / 36) + (product % 36);
+    }, 0);
+
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+// Returns what is wrong with a GSTIN, or null when it is valid
+export const validateGstin = (value: string): string | null => {
+  const gstin = value.trim().toUpperCase();
+
+  if (gstin.length !== 15) {
+    return "GSTIN must be 15 characters";
+  }
+  if (!getStateByCode(gstin.slice(0, 2))) {
+    return `${gstin.slice(0, 2)} is not a valid GST state code`;
+  }
+  if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(gstin.slice(2, 12))) {
+    return "Characters 3-12 must be a valid PAN (e.g. AAACS1234K)";
+  }
+  if (!PAN_HOLDER_TYPES.includes(gstin[5])) {
+    return `"${gstin[5]}" is not a valid PAN holder type`;
+  }
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return "Characters 13-14 must be an entity number and \"Z\"";
+  }
+  if (getGstinCheckCharacter(gstin) !== gstin[14]) {
+    return "GSTIN check character doesn't match; check for typos";
+  }
+
+  return null;
+};
+
+// State code of a valid GSTIN, otherwise null
+export const getGstinStateCode = (gstin: string) =>
+  gstin && !validateGstin(gstin) ? gstin.trim().slice(0, 2) : null;
@@ -0,0 +1,137 @@
+import { format } from "date-fns";
+import { OrderItem, Product, SKU, StockMovementReason } from "../types";
+import { isSKUOnSale } from "./products";
+import { downloadFile } from "./download";
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: "Sale",
+  order_edit: "Order edit",
+  cancellation: "Cancellation",
+  return: "Return",
+  manual_adjustment: "Manual adjustment",
+  goods_received: "Goods received",
+};
+
+type StockLine = Pick<OrderItem, "sku_id" | "quantity">;
+
+const sumQuantityBySKU = (items: StockLine[]) =>
+  items.reduce((totals, item) => {
+    totals.set(item.sku_id, (totals.get(item.sku_id) || 0) + item.quantity);
+    return totals;
+  }, new Map<number, number>());
+
+// Stock an order can draw on: what's on the shelf plus whatever the order
+// being edited already holds (its original lines were deducted when saved).
+export const getAvailableStock = (sku: SKU, reservedItems: StockLine[] = []) =>
+  sku.quantity_in_inventory + (sumQuantityBySKU(reservedItems).get(sku.id) || 0);
+
+// Per-line stock errors keyed by form field path ("items.0.quantity").
+// Lines sharing a SKU are checked against that SKU's stock together.
+export const getStockErrors = (
+  items: StockLine[],
+  skus: SKU[],
+  reservedItems: StockLine[] = []
+): Record<string, string> => {
+  const requested = sumQuantityBySKU(items);
+  const errors: Record<string, string> = {};
+
+  items.forEach((item, index) => {
+    const sku = skus.find((s) => s.id === item.sku_id);
+    if (!sku) return;
+
+    const available = Math.max(0, getAvailableStock(sku, reservedItems));
+    const total = requested.get(item.sku_id) || 0;
+
+    if (total <= available) return;
+
+    const stockLeft = available === 0 ? "Out of stock" : `Only ${available} left in stock`;
+    errors[`items.${index}.quantity`] =
+      total === item.quantity ? stockLeft : `${stockLeft} (${total} requested across lines)`;
+  });
+
+  return errors;
+};
+
+// Net stock change per SKU when an order's lines go from `previousItems` to
+// `nextItems`: positive values go back on the shelf, negative ones are taken.
+export const getStockDeltas = (previousItems: StockLine[], nextItems: StockLine[]) => {
+  const previous = sumQuantityBySKU(previousItems);
+  const next = sumQuantityBySKU(nextItems);
+  const deltas = new Map<number, number>();
+
+  new Set([...previous.keys(), ...next.keys()]).forEach((skuId) => {
+    const delta = (previous.get(skuId) || 0) - (next.get(skuId) || 0);
+    if (delta !== 0) deltas.set(skuId, delta);
+  });
+
+  return deltas;
+};
+
+export type StockLevel = "in_stock" | "low" | "out_of_stock";
+
+export const STOCK_LEVEL_LABELS: Record<StockLevel, string> = {
+  in_stock: "In stock",
+  low: "Low stock",
+  out_of_stock: "Out of stock",
+};
+
+export const getStockLevel = (sku: SKU): StockLevel => {
+  if (sku.quantity_in_inventory <= 0) return "out_of_stock";
+  if (sku.quantity_in_inventory <= (sku.reorder_level || 0)) return "low";
+  return "in_stock";
+};
+
+export interface ReorderSuggestion {
+  product: Product;
+  sku: SKU;
+  level: StockLevel;
+  quantity: number;
+}
+
+// Low and out-of-stock SKUs still on sale, emptiest first. Each suggestion is
+// the SKU's reorder quantity, or more if that wouldn't lift stock back above
+// its reorder level (e.g. after backorders took it negative).
+export const getReorderSuggestions = (products: Product[]): ReorderSuggestion[] =>
+  products
+    .flatMap((product) =>
+      product.sku
+        .filter((sku) => isSKUOnSale(sku) && getStockLevel(sku) !== "in_stock")
+        .map((sku) => ({
+          product,
+          sku,
+          level: getStockLevel(sku),
+          quantity: Math.max(
+            sku.reorder_quantity || 0,
+            (sku.reorder_level || 0) + 1 - sku.quantity_in_inventory
+          ),
+        }))
+    )
+    .sort((a, b) => a.sku.quantity_in_inventory - b.sku.quantity_in_inventory);
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value ?? "");
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const renderReorderCsv = (suggestions: ReorderSuggestion[]) =>
+  [
+    ["Product", "Brand", "SKU", "Size", "In stock", "Reorder level", "Suggested quantity"],
+    ...suggestions.map(({ product, sku, quantity }) => [
+      product.name,
+      product.brand,
+      sku.id,
+      `${sku.amount} ${sku.unit}`,
+      sku.quantity_in_inventory,
+      sku.reorder_level || 0,
+      quantity,
+    ]),
+  ]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\n");
+
+export const downloadReorderList = (suggestions: ReorderSuggestion[]) =>
+  downloadFile(
+    renderReorderCsv(suggestions),
+    `reorder-list-${format(new Date(), "yyyy-MM-dd")}.csv`,
+    "text/csv;charset=utf-8"
+  );
@@ -0,0 +1,320 @@
+import { format } from "date-fns";
+import { CreditNote, Quotation, SaleOrder } from "../types";
+import { calculateLineTax } from "./gst";
+import { SELLER } from "./seller";
+import { downloadFile } from "./download";
+import { CANCELLATION_REASON_LABELS } from "./orders";
+import { formatQuoteNo } from "./quotations";
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+const twoDigitWords = (n: number) =>
+  n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+
+const threeDigitWords = (n: number) =>
+  [n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : "", twoDigitWords(n % 100)]
+    .filter(Boolean)
+    .join(" ");
+
+// Whole numbers in the Indian system: thousand, lakh (1,00,000), crore (1,00,00,000)
+export const numberToIndianWords = (value: number): string => {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor(n / 100000) % 100;
+  const thousand = Math.floor(n / 1000) % 100;
+  const rest = n % 1000;
+
+  return [
+    crore ? `${numberToIndianWords(crore)} Crore` : "",
+    lakh ? `${twoDigitWords(lakh)} Lakh` : "",
+    thousand ? `${twoDigitWords(thousand)} Thousand` : "",
+    threeDigitWords(rest),
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+// e.g. 1180.5 -> "Rupees One Thousand One Hundred Eighty and Fifty Paise Only"
+export const amountInWords = (amount: number) => {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+
+  return `Rupees ${numberToIndianWords(rupees)}${
+    paise ? ` and ${twoDigitWords(paise)} Paise` : ""
+  } Only`;
+};
+
+const formatAmount = (value: number) =>
+  (value || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const escapeHtml = (value: string | number | null | undefined) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const INVOICE_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #111; margin: 24px; }
+  h1 { font-size: 18px; text-align: center; margin: 0 0 16px; letter-spacing: 1px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #999; padding: 6px; vertical-align: top; }
+  th { background: #f2f2f2; text-align: left; }
+  .num { text-align: right; white-space: nowrap; }
+  .parties td { width: 50%; }
+  .muted { color: #555; }
+  .totals { width: 45%; margin-left: auto; margin-top: 12px; }
+  .totals td { border: none; padding: 3px 6px; }
+  .totals tr.grand td { border-top: 1px solid #111; font-weight: bold; font-size: 13px; }
+  .words { margin-top: 12px; padding: 8px; border: 1px solid #999; }
+  .cancelled { margin: 0 0 12px; padding: 8px; border: 2px solid #b91c1c; color: #b91c1c; text-align: center; font-weight: bold; }
+  .footer { display: flex; justify-content: space-between; margin-top: 32px; }
+  .signature { text-align: right; }
+  .signature .line { margin-top: 48px; border-top: 1px solid #111; padding-top: 4px; display: inline-block; min-width: 180px; text-align: center; }
+  @media print { body { margin: 0; } }
+`;
+
+type TaxDocument = Pick<SaleOrder, "items" | "tax" | "total_price" | "billing">;
+
+// Seller and buyer block; `details` fills the top right cell (document number, dates).
+// The buyer is printed as saved on the document, not from the customer's current profile.
+const renderParties = ({ billing }: TaxDocument, details: string) => `<table class="parties">
+    <tr>
+      <td>
+        <strong>${escapeHtml(SELLER.name)}</strong><br />
+        ${escapeHtml(SELLER.address)}<br />
+        State: ${escapeHtml(SELLER.state_name)} (Code ${escapeHtml(SELLER.state_code)})<br />
+        GSTIN: ${escapeHtml(SELLER.gstin)}<br />
+        ${escapeHtml(SELLER.email)} · ${escapeHtml(SELLER.phone)}
+      </td>
+      <td>
+        ${details}
+        Place of Supply: ${escapeHtml(`${billing.state_name} (${billing.state_code})`)}<br />
+        Reverse Charge: No
+      </td>
+    </tr>
+    <tr>
+      <td colspan="2">
+        <span class="muted">Bill To</span><br />
+        <strong>${escapeHtml(billing.name)}</strong><br />
+        ${escapeHtml(billing.location_name)}${billing.pincode ? ` - ${escapeHtml(billing.pincode)}` : ""}<br />
+        ${billing.email ? `${escapeHtml(billing.email)}<br />` : ""}
+        GSTIN: ${escapeHtml(billing.gstin || "Unregistered")}
+      </td>
+    </tr>
+  </table>`;
+
+// Line items with their GST split, followed by the taxable value and tax totals.
+// Everything comes from the lines as saved, so later catalogue edits don't show up.
+const renderLines = (document: TaxDocument, grandTotalLabel: string, grandTotal: number) => {
+  const supplyType = document.tax?.supply_type || "intra_state";
+  const isInterState = supplyType === "inter_state";
+
+  const rows = document.items.map((item, index) => {
+    const line = calculateLineTax(item, supplyType);
+    const rate = item.gst_rate || 0;
+    const taxCells = isInterState
+      ? `<td class="num">${rate}%</td><td class="num">${formatAmount(line.igst)}</td>`
+      : `<td class="num">${rate / 2}%</td><td class="num">${formatAmount(line.cgst)}</td>
+         <td class="num">${rate / 2}%</td><td class="num">${formatAmount(line.sgst)}</td>`;
+
+    return `<tr>
+      <td>${index + 1}</td>
+      <td>${escapeHtml(item.product_name)}<div class="muted">${
+        item.sku_unit ? `${escapeHtml(item.sku_amount)} ${escapeHtml(item.sku_unit)} · ` : ""
+      }SKU #${item.sku_id}</div></td>
+      <td>${escapeHtml(item.hsn_code || "—")}</td>
+      <td class="num">${item.quantity}</td>
+      <td class="num">${formatAmount(item.price)}</td>
+      <td class="num">${formatAmount(line.taxable_value)}</td>
+      ${taxCells}
+      <td class="num">${formatAmount(line.taxable_value + line.cgst + line.sgst + line.igst)}</td>
+    </tr>`;
+  });
+
+  const taxHeaders = isInterState
+    ? `<th class="num">IGST %</th><th class="num">IGST</th>`
+    : `<th class="num">CGST %</th><th class="num">CGST</th><th class="num">SGST %</th><th class="num">SGST</th>`;
+
+  const taxTotals = isInterState
+    ? `<tr><td>IGST</td><td class="num">${formatAmount(document.tax?.igst)}</td></tr>`
+    : `<tr><td>CGST</td><td class="num">${formatAmount(document.tax?.cgst)}</td></tr>
+       <tr><td>SGST</td><td class="num">${formatAmount(document.tax?.sgst)}</td></tr>`;
+
+  return `<table style="margin-top: 12px">
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>Description</th>
+        <th>HSN</th>
+        <th class="num">Qty</th>
+        <th class="num">Rate</th>
+        <th class="num">Taxable Value</th>
+        ${taxHeaders}
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${rows.join("")}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Taxable Value</td><td class="num">${formatAmount(document.total_price)}</td></tr>
+    ${taxTotals}
+    <tr class="grand"><td>${grandTotalLabel} (₹)</td><td class="num">${formatAmount(grandTotal)}</td></tr>`;
+};
+
+const renderFooter = (note: string) => `<div class="footer">
+    <div class="muted">
+      ${note}
+    </div>
+    <div class="signature">
+      For ${escapeHtml(SELLER.name)}
+      <div class="line">Authorised Signatory</div>
+    </div>
+  </div>`;
+
+const renderDocument = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${INVOICE_STYLES}</style>
+</head>
+<body>
+  ${body}
+</body>
+</html>`;
+
+// Builds a self-contained HTML tax invoice (Rule 46, CGST Rules) for an order.
+// Print it to get a PDF.
+export const renderInvoiceHtml = (order: SaleOrder) => {
+  const grandTotal = order.grand_total ?? order.total_price;
+
+  return renderDocument(
+    `Tax Invoice ${order.invoice_no}`,
+    `<h1>TAX INVOICE</h1>
+  ${
+    order.cancellation
+      ? `<div class="cancelled">CANCELLED on ${escapeHtml(
+          format(new Date(order.cancellation.cancelled_at), "dd/MM/yyyy")
+        )} · ${escapeHtml(CANCELLATION_REASON_LABELS[order.cancellation.reason])}${
+          order.cancellation.note ? ` · ${escapeHtml(order.cancellation.note)}` : ""
+        }${
+          order.cancellation.credit_note_no
+            ? ` · Reversed by ${escapeHtml(order.cancellation.credit_note_no)}`
+            : ""
+        }</div>`
+      : ""
+  }
+  ${renderParties(
+    order,
+    `Invoice No: <strong>${escapeHtml(order.invoice_no)}</strong><br />
+        Invoice Date: ${escapeHtml(format(new Date(order.invoice_date), "dd/MM/yyyy"))}<br />`
+  )}
+
+  ${renderLines(order, "Grand Total", grandTotal)}
+    ${
+      order.amount_received > 0 && order.balance_due > 0
+        ? `<tr><td>Amount Received</td><td class="num">${formatAmount(order.amount_received)}</td></tr>
+           <tr><td>Balance Due</td><td class="num">${formatAmount(order.balance_due)}</td></tr>`
+        : ""
+    }
+  </table>
+
+  <div class="words"><strong>Amount in words:</strong> ${escapeHtml(amountInWords(grandTotal))}</div>
+
+  ${renderFooter(`This is a computer-generated invoice.<br />
+      ${
+        order.cancellation
+          ? "This invoice has been cancelled and is not payable."
+          : order.payment_status === "paid"
+            ? "Payment received with thanks."
+            : "Payment due on receipt."
+      }`)}`
+  );
+};
+
+// Credit note (Section 34, CGST Act) for goods returned against an invoice
+export const renderCreditNoteHtml = (creditNote: CreditNote) =>
+  renderDocument(
+    `Credit Note ${creditNote.credit_note_no}`,
+    `<h1>CREDIT NOTE</h1>
+  ${renderParties(
+    creditNote,
+    `Credit Note No: <strong>${escapeHtml(creditNote.credit_note_no)}</strong><br />
+        Date: ${escapeHtml(format(new Date(creditNote.credit_note_date), "dd/MM/yyyy"))}<br />
+        Against Invoice: ${escapeHtml(creditNote.invoice_no)} dated ${escapeHtml(
+          format(new Date(creditNote.invoice_date), "dd/MM/yyyy")
+        )}<br />`
+  )}
+
+  ${renderLines(creditNote, "Total Credit", creditNote.grand_total)}
+  </table>
+
+  <div class="words"><strong>Amount in words:</strong> ${escapeHtml(amountInWords(creditNote.grand_total))}</div>
+  ${creditNote.note ? `<p><strong>Reason:</strong> ${escapeHtml(creditNote.note)}</p>` : ""}
+
+  ${renderFooter(`This is a computer-generated credit note for goods returned.<br />
+      GST charged on the original invoice is reversed to the extent shown above.`)}`
+  );
+
+// Quotation for the customer to accept; carries no tax liability until invoiced
+export const renderQuotationHtml = (quotation: Quotation) =>
+  renderDocument(
+    `Quotation ${formatQuoteNo(quotation)}`,
+    `<h1>QUOTATION</h1>
+  ${renderParties(
+    quotation,
+    `Quote No: <strong>${escapeHtml(quotation.quote_no)}</strong> (Version ${quotation.version})<br />
+        Quote Date: ${escapeHtml(format(new Date(quotation.quote_date), "dd/MM/yyyy"))}<br />
+        Valid Until: ${escapeHtml(format(new Date(quotation.valid_until), "dd/MM/yyyy"))}<br />`
+  )}
+
+  ${renderLines(quotation, "Total", quotation.grand_total)}
+  </table>
+
+  <div class="words"><strong>Amount in words:</strong> ${escapeHtml(amountInWords(quotation.grand_total))}</div>
+  ${quotation.notes ? `<p><strong>Notes:</strong> ${escapeHtml(quotation.notes)}</p>` : ""}
+
+  ${renderFooter(`This is a quotation, not a tax invoice.<br />
+      Prices are valid until ${escapeHtml(format(new Date(quotation.valid_until), "dd/MM/yyyy"))}.
+      Stock is subject to availability when the order is placed.`)}`
+  );
+
+export const getInvoiceFileName = (order: SaleOrder) =>
+  `${order.invoice_no.replace(/[^A-Za-z0-9_-]+/g, "_")}.html`;
+
+export const getQuotationFileName = (quotation: Quotation) =>
+  `${quotation.quote_no.replace(/[^A-Za-z0-9_-]+/g, "_")}-v${quotation.version}.html`;
+
+export const getCreditNoteFileName = (creditNote: CreditNote) =>
+  `${creditNote.credit_note_no.replace(/[^A-Za-z0-9_-]+/g, "_")}.html`;
+
+// Opens the invoice in a new window and brings up the print dialog, where
+// "Save as PDF" produces the PDF copy
+export const printInvoice = (html: string) => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("Allow pop-ups for this site to print invoices");
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const downloadInvoice = (html: string, fileName: string) =>
+  downloadFile(html, fileName, "text/html;charset=utf-8");
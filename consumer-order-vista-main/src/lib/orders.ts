@@ -0,0 +1,112 @@
+import { z } from "zod";
+import {
+  CancellationReason,
+  CreditNote,
+  OrderStatus,
+  OrderStatusChange,
+  SaleOrder,
+} from "../types";
+import { Permission } from "./permissions";
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: "Draft",
+  confirmed: "Confirmed",
+  packed: "Packed",
+  dispatched: "Dispatched",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  returned: "Returned",
+};
+
+// Where an order can go next; cancelled and returned are final
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  draft: ["confirmed", "cancelled"],
+  confirmed: ["packed", "cancelled"],
+  packed: ["dispatched", "cancelled"],
+  dispatched: ["delivered"],
+  delivered: ["returned"],
+  cancelled: [],
+  returned: [],
+};
+
+// Button labels for moving an order into each status
+export const ORDER_STATUS_ACTIONS: Record<OrderStatus, string> = {
+  draft: "Save as draft",
+  confirmed: "Confirm",
+  packed: "Mark packed",
+  dispatched: "Dispatch",
+  delivered: "Mark delivered",
+  cancelled: "Cancel order",
+  returned: "Record return",
+};
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  customer_request: "Customer request",
+  out_of_stock: "Out of stock",
+  pricing_error: "Pricing error",
+  duplicate_order: "Duplicate order",
+  payment_not_received: "Payment not received",
+  other: "Other",
+};
+
+export const requiresCancellationNote = (reason: CancellationReason) => reason === "other";
+
+// Form lines, shared by sale orders and quotations
+export const orderItemsSchema = z
+  .array(
+    z.object({
+      sku_id: z.number({
+        required_error: "Please select a product",
+      }),
+      price: z.number().min(0, "Price must be a positive number"),
+      quantity: z.number().min(1, "Quantity must be at least 1"),
+    })
+  )
+  .min(1, "At least one item is required");
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+// Moving goods along is routine; undoing a sale is not
+export const getTransitionPermission = (to: OrderStatus): Permission =>
+  to === "cancelled" ? "orders:cancel" : to === "returned" ? "orders:return" : "orders:fulfil";
+
+// Orders can be cancelled until they ship; if money has been taken the API
+// reverses the invoice with a credit note
+export const canCancelOrder = (order: Pick<SaleOrder, "status">) =>
+  canTransition(order.status, "cancelled");
+
+// Lines can change until the order is packed
+export const isOrderEditable = (order: Pick<SaleOrder, "status">) =>
+  order.status === "draft" || order.status === "confirmed";
+
+// Cancelled orders no longer count towards sales or what the customer owes.
+// Returns are settled through credit notes instead.
+export const isOrderVoid = (order: Pick<SaleOrder, "status">) => order.status === "cancelled";
+
+// Quantity on each order line (by index) that hasn't been returned yet
+export const getReturnableQuantities = (
+  order: Pick<SaleOrder, "items">,
+  creditNotes: Pick<CreditNote, "items">[]
+) => {
+  const remaining = order.items.map((item) => item.quantity);
+
+  creditNotes
+    .flatMap((note) => note.items)
+    .forEach((item) => {
+      if (remaining[item.line] !== undefined) {
+        remaining[item.line] -= item.quantity;
+      }
+    });
+
+  return remaining;
+};
+
+// Goods can come back once delivered; an order becomes returned when nothing is left on it
+export const canReturnOrder = (order: Pick<SaleOrder, "status">) => order.status === "delivered";
+
+export const toStatusChange = (status: OrderStatus, changedBy: string): OrderStatusChange => ({
+  status,
+  changed_at: new Date().toISOString(),
+  changed_by: changedBy,
+});
@@ -0,0 +1,43 @@
+import { Payment, PaymentMode, PaymentStatus, SaleOrder } from "../types";
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  bank_transfer: "Bank transfer",
+  cheque: "Cheque",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially paid",
+  paid: "Paid",
+};
+
+// Everything but cash leaves a trail to reconcile against
+export const requiresPaymentReference = (mode: PaymentMode) => mode !== "cash";
+
+export const PAYMENT_REFERENCE_LABELS: Record<PaymentMode, string> = {
+  cash: "Receipt number",
+  upi: "UPI transaction ID",
+  card: "Card transaction ID",
+  bank_transfer: "UTR number",
+  cheque: "Cheque number",
+};
+
+// Amounts are compared in paise so rounding can't leave a ₹0.00 balance open
+const toPaise = (amount: number) => Math.round((amount || 0) * 100);
+
+export const summarizePayments = (
+  grandTotal: number,
+  payments: Pick<Payment, "amount">[]
+): Pick<SaleOrder, "amount_received" | "balance_due" | "payment_status"> => {
+  const received = payments.reduce((total, payment) => total + toPaise(payment.amount), 0);
+  const balance = Math.max(0, toPaise(grandTotal) - received);
+
+  return {
+    amount_received: received / 100,
+    balance_due: balance / 100,
+    payment_status: balance === 0 ? "paid" : received > 0 ? "partially_paid" : "unpaid",
+  };
+};
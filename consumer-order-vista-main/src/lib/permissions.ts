@@ -0,0 +1,54 @@
+import { User, UserRole } from "../types";
+
+export type Permission =
+  | "orders:create"
+  | "orders:edit"
+  | "orders:edit_completed"
+  | "orders:backorder"
+  | "orders:fulfil"
+  | "orders:cancel"
+  | "orders:return"
+  | "quotations:manage"
+  | "payments:record"
+  | "payments:delete"
+  | "inventory:adjust"
+  | "products:manage"
+  | "customers:manage"
+  | "customers:delete"
+  | "demo:reset";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  user: "Sales",
+  viewer: "Viewer",
+};
+
+const SALES_PERMISSIONS: Permission[] = [
+  "orders:create",
+  "orders:edit",
+  "orders:fulfil",
+  "quotations:manage",
+  "customers:manage",
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...SALES_PERMISSIONS,
+  "orders:cancel",
+  "orders:return",
+  "payments:record",
+  "inventory:adjust",
+  "products:manage",
+  "customers:delete",
+];
+
+// Each role includes everything the role below it can do; viewers are read-only
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  user: SALES_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  admin: [...MANAGER_PERMISSIONS, "orders:edit_completed", "orders:backorder", "payments:delete", "demo:reset"],
+};
+
+export const hasPermission = (user: Pick<User, "role"> | null | undefined, permission: Permission) =>
+  !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
@@ -0,0 +1,77 @@
+import { getStateByCode } from "./states";
+
+export const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+// Offline pincode prefix -> GST state code table, by postal circle. Entries are
+// [first prefix, last prefix, state code]; the first match wins, so the narrow
+// ranges carved out of a larger state come first. A few pincodes in border
+// districts belong to the neighbouring state.
+const PINCODE_PREFIXES: [string, string, string][] = [
+  ["68255", "68255", "31"], // Lakshadweep
+  ["60500", "60501", "34"], // Puducherry
+  ["403", "403", "30"], // Goa
+  ["160", "160", "04"], // Chandigarh
+  ["194", "194", "38"], // Ladakh
+  ["737", "737", "11"], // Sikkim
+  ["744", "744", "35"], // Andaman and Nicobar Islands
+  ["246", "246", "05"], // Uttarakhand
+  ["248", "249", "05"],
+  ["262", "263", "05"],
+  ["814", "816", "20"], // Jharkhand
+  ["822", "822", "20"],
+  ["825", "829", "20"],
+  ["831", "835", "20"],
+  ["110", "110", "07"], // Delhi
+  ["121", "136", "06"], // Haryana
+  ["140", "159", "03"], // Punjab
+  ["171", "177", "02"], // Himachal Pradesh
+  ["180", "193", "01"], // Jammu and Kashmir
+  ["200", "285", "09"], // Uttar Pradesh
+  ["301", "345", "08"], // Rajasthan
+  ["360", "396", "24"], // Gujarat
+  ["400", "445", "27"], // Maharashtra
+  ["450", "488", "23"], // Madhya Pradesh
+  ["490", "497", "22"], // Chhattisgarh
+  ["500", "509", "36"], // Telangana
+  ["510", "535", "37"], // Andhra Pradesh
+  ["560", "591", "29"], // Karnataka
+  ["600", "643", "33"], // Tamil Nadu
+  ["670", "695", "32"], // Kerala
+  ["700", "743", "19"], // West Bengal
+  ["750", "770", "21"], // Odisha
+  ["780", "788", "18"], // Assam
+  ["790", "792", "12"], // Arunachal Pradesh
+  ["793", "794", "17"], // Meghalaya
+  ["795", "795", "14"], // Manipur
+  ["796", "796", "15"], // Mizoram
+  ["797", "798", "13"], // Nagaland
+  ["799", "799", "16"], // Tripura
+  ["800", "855", "10"], // Bihar
+];
+
+// GST state code for a pincode, or null when it isn't in a known range
+export const getPincodeStateCode = (pincode: string) => {
+  if (!PINCODE_PATTERN.test(pincode)) return null;
+
+  const match = PINCODE_PREFIXES.find(([first, last]) => {
+    const prefix = pincode.slice(0, first.length);
+    return prefix >= first && prefix <= last;
+  });
+
+  return match ? match[2] : null;
+};
+
+export const getPincodeState = (pincode: string) =>
+  getStateByCode(getPincodeStateCode(pincode) || "");
+
+// Returns what is wrong with a pincode, or null when it is valid
+export const validatePincode = (pincode: string): string | null => {
+  if (!PINCODE_PATTERN.test(pincode)) {
+    return "Enter a 6-digit pincode";
+  }
+  if (!getPincodeStateCode(pincode)) {
+    return "This pincode isn't in any known postal circle";
+  }
+
+  return null;
+};
@@ -0,0 +1,10 @@
+import { SKU } from "../types";
+
+export const SKU_UNITS = ["unit", "pack", "kg", "g", "l", "ml"];
+
+// HSN codes on invoices are 4, 6 or 8 digits long
+export const HSN_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+export const MRP_ERROR = "Selling price can't be more than the MRP";
+
+export const isSKUOnSale = (sku: SKU) => !sku.is_retired;
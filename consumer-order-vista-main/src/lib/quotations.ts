@@ -0,0 +1,45 @@
+import { addDays, format } from "date-fns";
+import { Quotation, QuotationStatus } from "../types";
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  open: "Open",
+  expired: "Expired",
+  converted: "Converted",
+};
+
+// How long a new quote stays valid unless the rep picks another date
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 15;
+
+export const getDefaultValidUntil = (quoteDate: Date) =>
+  addDays(quoteDate, DEFAULT_QUOTE_VALIDITY_DAYS);
+
+// Quotes lapse at the end of their last valid day
+export const getQuotationStatus = (
+  quotation: Pick<Quotation, "valid_until" | "conversion">,
+  now = new Date()
+): QuotationStatus =>
+  quotation.conversion
+    ? "converted"
+    : quotation.valid_until < format(now, "yyyy-MM-dd")
+    ? "expired"
+    : "open";
+
+// Expired quotes have to be revised with a new validity date first
+export const canConvertQuotation = (quotation: Pick<Quotation, "valid_until" | "conversion">) =>
+  getQuotationStatus(quotation) === "open";
+
+export const isQuotationEditable = (quotation: Pick<Quotation, "conversion">) =>
+  !quotation.conversion;
+
+// Every version of a quote, newest first, each filled out as a full quotation
+// so it can be rendered and printed the same way as the current one
+export const getQuotationVersions = (quotation: Quotation): Quotation[] => [
+  quotation,
+  ...(quotation.revisions || [])
+    .map((revision) => ({ ...quotation, ...revision }))
+    .reverse(),
+];
+
+// Quote number with its revision, as printed: QT-20240101-001 v2
+export const formatQuoteNo = (quotation: Pick<Quotation, "quote_no" | "version">) =>
+  `${quotation.quote_no} v${quotation.version}`;
@@ -0,0 +1,21 @@
+import { Location } from "react-router-dom";
+
+export const NEW_ORDER_PATH = "/orders/new";
+export const orderPath = (id: number) => `/orders/${id}`;
+export const editOrderPath = (id: number) => `/orders/${id}/edit`;
+export const customerPath = (id: number) => `/customers/${id}`;
+export const productPath = (id: number) => `/products/${id}`;
+export const quotationSearchPath = (quoteNo: string) =>
+  `/quotations?${new URLSearchParams({ q: quoteNo })}`;
+
+// Router state ProtectedRoute attaches when it sends someone to /login
+export interface ReturnToState {
+  from?: Location;
+}
+
+// The page to go back to after logging in
+export const getReturnTo = (state: unknown) => {
+  const from = (state as ReturnToState | null)?.from;
+
+  return from && from.pathname !== "/login" ? `${from.pathname}${from.search}${from.hash}` : "/";
+};
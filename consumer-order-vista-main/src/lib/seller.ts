@@ -0,0 +1,11 @@
+// The business issuing invoices. Tax on each order depends on whether the
+// customer is in the same state as the seller.
+export const SELLER = {
+  name: "Consumer Order Vista Pvt. Ltd.",
+  address: "12, Industrial Estate, Andheri East, Mumbai 400093",
+  state_code: "27",
+  state_name: "Maharashtra",
+  gstin: "27AABCC1234D1ZB",
+  email: "accounts@consumerordervista.in",
+  phone: "+91 22 4000 1234",
+};
@@ -0,0 +1,55 @@
+export interface IndianState {
+  code: string;  // GST state code, the first two digits of a GSTIN
+  name: string;
+}
+
+export const INDIAN_STATES: IndianState[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export const getStateByCode = (code: string) =>
+  INDIAN_STATES.find((state) => state.code === code);
+
+// Longest names first so "Dadra and Nagar Haveli and Daman and Diu" wins over shorter matches
+const STATES_BY_NAME_LENGTH = [...INDIAN_STATES].sort((a, b) => b.name.length - a.name.length);
+
+// Finds the state named in a free-text location such as "Mumbai, Maharashtra, India"
+export const findStateInText = (text: string) => {
+  const haystack = text.toLowerCase();
+  return STATES_BY_NAME_LENGTH.find((state) => haystack.includes(state.name.toLowerCase()));
+};
@@ -0,0 +1,38 @@
+import { TokenClaims, User } from "../types";
+
+// base64url without padding, as used by JWTs
+export const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+export const base64UrlDecode = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export const encodeJson = (value: unknown) =>
+  base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+// Reads the claims of a JWT-style token without checking its signature; the
+// server does that on every request. Returns null for anything malformed.
+export const decodeTokenClaims = (token: string): TokenClaims | null => {
+  try {
+    const [, payload] = token.split(".");
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+
+    return typeof claims?.sub === "string" && typeof claims?.exp === "number" ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (claims: TokenClaims, now = Date.now()) =>
+  claims.exp * 1000 <= now;
+
+export const claimsToUser = (claims: TokenClaims): User => ({
+  username: claims.sub,
+  role: claims.role,
+});
@@ -1,14 +1,41 @@
 
-import { Customer, Product, SaleOrder, User } from "../types";
+import { Customer, OrderStatus, OrderStatusChange, Payment, Product, SaleOrder, UserAccount } from "../types";
+import {
+  calculateTax,
+  getBillingParty,
+  getCustomerState,
+  getGrandTotal,
+  getSKUGstRate,
+  getSupplyType,
+} from "../lib/gst";
+import { SELLER } from "../lib/seller";
+import { summarizePayments } from "../lib/payments";
 
-export const mockUsers: User[] = [
+// Every demo account's password is "password"
+export const mockUsers: UserAccount[] = [
   {
     username: "admin",
-    password: "password",
+    role: "admin",
+    password_salt: "02c43d70ac6704d73d7ac70177174e2e",
+    password_hash: "2a734aa8057ce52c4bbaefea688d45d45924ed64520d7f837a9b73b2dd0eb226",
+  },
+  {
+    username: "manager",
+    role: "manager",
+    password_salt: "c1bc2dbdb4f902aeb7ddab4f21b9a74f",
+    password_hash: "5e2fc698c245b34d1d095b39b8c1ef513d0de33970fa930e1e752c470d91cf85",
   },
   {
     username: "user",
-    password: "password",
+    role: "user",
+    password_salt: "248b061b8e5ab7cb4e71eb68100c6f48",
+    password_hash: "d14a3c669ab82890a1e5844e87d823c9c780c841d2a33c256a66a6681f170a8d",
+  },
+  {
+    username: "viewer",
+    role: "viewer",
+    password_salt: "a7754c36a6ff8b804866cce6fe722dab",
+    password_hash: "2740e90a22291be0dfcecc90c2a9af8ea956bad37f6e09c882f2f7d428959cfd",
   },
 ];
 
@@ -36,11 +63,11 @@ export const mockCustomers: Customer[] = [
       name: "Spider",
       color: [42, 173, 99],
       email: "spider@web.com",
-      pincode: "400002",
+      pincode: "110001",
       location_name: "Delhi, India",
-      type: "C",
+      type: "B",
       profile_pic: null,
-      gst: "GSTIN1234567890",
+      gst: "07AAACS1234K1ZJ",
     },
   },
   {
@@ -51,11 +78,11 @@ export const mockCustomers: Customer[] = [
       name: "Krishna",
       color: [82, 173, 199],
       email: "krishna@heaven.com",
-      pincode: "400003",
+      pincode: "560001",
       location_name: "Bangalore, Karnataka, India",
-      type: "C",
+      type: "B",
       profile_pic: null,
-      gst: "GSTIN0987654321",
+      gst: "29AAGCK5678M1ZN",
     },
   },
 ];
@@ -70,14 +97,18 @@ export const mockProducts: Product[] = [
     characteristics: "New Product Characteristics",
     features: "",
     brand: "New Product Brand",
+    hsn_code: "9503",
+    gst_rate: 12,
     sku: [
       {
         id: 248,
         selling_price: 54,
-        max_retail_price: 44,
+        max_retail_price: 60,
         amount: 33,
         unit: "kg",
         quantity_in_inventory: 104,
+        reorder_level: 20,
+        reorder_quantity: 100,
         product: 209,
       },
       {
@@ -87,15 +118,19 @@ export const mockProducts: Product[] = [
         amount: 33,
         unit: "kg",
         quantity_in_inventory: 46,
+        reorder_level: 20,
+        reorder_quantity: 50,
         product: 209,
       },
       {
         id: 246,
         selling_price: 23,
-        max_retail_price: 21,
+        max_retail_price: 25,
         amount: 22,
         unit: "kg",
         quantity_in_inventory: 1,
+        reorder_level: 5,
+        reorder_quantity: 20,
         product: 209,
       },
     ],
@@ -111,6 +146,8 @@ export const mockProducts: Product[] = [
     characteristics: "Product 5 Characteristics",
     features: "",
     brand: "Healthy Brand",
+    hsn_code: "2106",
+    gst_rate: 12,
     sku: [
       {
         id: 249,
@@ -119,6 +156,8 @@ export const mockProducts: Product[] = [
         amount: 10,
         unit: "kg",
         quantity_in_inventory: 50,
+        reorder_level: 10,
+        reorder_quantity: 40,
         product: 210,
       },
     ],
@@ -134,6 +173,8 @@ export const mockProducts: Product[] = [
     characteristics: "Stocked Product I Characteristics",
     features: "",
     brand: "Stock Brand",
+    hsn_code: "3924",
+    gst_rate: 18,
     sku: [
       {
         id: 250,
@@ -142,6 +183,8 @@ export const mockProducts: Product[] = [
         amount: 234,
         unit: "kg",
         quantity_in_inventory: 30,
+        reorder_level: 10,
+        reorder_quantity: 30,
         product: 211,
       },
     ],
@@ -157,6 +200,8 @@ export const mockProducts: Product[] = [
     characteristics: "Sport Equipment Characteristics",
     features: "",
     brand: "Sport Brand",
+    hsn_code: "9506",
+    gst_rate: 18,
     sku: [
       {
         id: 251,
@@ -165,6 +210,8 @@ export const mockProducts: Product[] = [
         amount: 1,
         unit: "unit",
         quantity_in_inventory: 10,
+        reorder_level: 10,
+        reorder_quantity: 20,
         product: 212,
       },
     ],
@@ -180,6 +227,8 @@ export const mockProducts: Product[] = [
     characteristics: "Unknown Characteristics",
     features: "",
     brand: "Unknown Brand",
+    hsn_code: "4202",
+    gst_rate: 28,
     sku: [
       {
         id: 252,
@@ -188,6 +237,8 @@ export const mockProducts: Product[] = [
         amount: 1,
         unit: "unit",
         quantity_in_inventory: 5,
+        reorder_level: 5,
+        reorder_quantity: 10,
         product: 213,
       },
     ],
@@ -203,6 +254,8 @@ export const mockProducts: Product[] = [
     characteristics: "Tea Characteristics",
     features: "",
     brand: "Tea Brand",
+    hsn_code: "0902",
+    gst_rate: 5,
     sku: [
       {
         id: 253,
@@ -211,6 +264,30 @@ export const mockProducts: Product[] = [
         amount: 100,
         unit: "g",
         quantity_in_inventory: 100,
+        reorder_level: 25,
+        reorder_quantity: 100,
+        product: 214,
+      },
+      {
+        id: 255,
+        selling_price: 115,
+        max_retail_price: 130,
+        amount: 250,
+        unit: "g",
+        quantity_in_inventory: 40,
+        reorder_level: 50,
+        reorder_quantity: 100,
+        product: 214,
+      },
+      {
+        id: 256,
+        selling_price: 420,
+        max_retail_price: 480,
+        amount: 1,
+        unit: "kg",
+        quantity_in_inventory: 12,
+        reorder_level: 5,
+        reorder_quantity: 20,
         product: 214,
       },
     ],
@@ -226,6 +303,8 @@ export const mockProducts: Product[] = [
     characteristics: "Premium Tea Characteristics",
     features: "",
     brand: "Premium Tea Brand",
+    hsn_code: "0902",
+    gst_rate: 5,
     sku: [
       {
         id: 254,
@@ -234,6 +313,8 @@ export const mockProducts: Product[] = [
         amount: 100,
         unit: "g",
         quantity_in_inventory: 75,
+        reorder_level: 25,
+        reorder_quantity: 100,
         product: 215,
       },
     ],
@@ -242,7 +323,16 @@ export const mockProducts: Product[] = [
   },
 ];
 
-export const mockSaleOrders: SaleOrder[] = [
+type SeedSaleOrder = Omit<
+  SaleOrder,
+  "tax" | "grand_total" | "billing" | "amount_received" | "balance_due" | "payment_status"
+>;
+
+// Status history for a seed order, every step taken by the manager
+const history = (...steps: [OrderStatus, string][]): OrderStatusChange[] =>
+  steps.map(([status, changed_at]) => ({ status, changed_at, changed_by: "manager" }));
+
+const seedSaleOrders: SeedSaleOrder[] = [
   {
     id: 1,
     customer_id: 11909,
@@ -255,12 +345,13 @@ export const mockSaleOrders: SaleOrder[] = [
         product_name: "New Product",
       },
     ],
-    paid: false,
     invoice_no: "INV-20240524-001",
     invoice_date: "2024-05-24",
     created_at: "2024-05-24T11:07:00.000Z",
     last_modified: "2024-05-24T11:07:00.000Z",
     total_price: 100,
+    status: "confirmed",
+    status_history: history(["draft", "2024-05-24T11:07:00.000Z"], ["confirmed", "2024-05-24T11:20:00.000Z"]),
   },
   {
     id: 2,
@@ -280,12 +371,17 @@ export const mockSaleOrders: SaleOrder[] = [
         product_name: "New Product",
       },
     ],
-    paid: false,
     invoice_no: "INV-20240524-002",
     invoice_date: "2024-05-24",
     created_at: "2024-05-24T11:30:00.000Z",
     last_modified: "2024-05-24T11:30:00.000Z",
     total_price: 210,
+    status: "packed",
+    status_history: history(
+      ["draft", "2024-05-24T11:30:00.000Z"],
+      ["confirmed", "2024-05-24T11:35:00.000Z"],
+      ["packed", "2024-05-24T15:10:00.000Z"]
+    ),
   },
   {
     id: 3,
@@ -299,12 +395,19 @@ export const mockSaleOrders: SaleOrder[] = [
         product_name: "Product 5",
       },
     ],
-    paid: true,
     invoice_no: "INV-20240523-001",
     invoice_date: "2024-05-23",
     created_at: "2024-05-23T10:30:00.000Z",
     last_modified: "2024-05-23T10:30:00.000Z",
     total_price: 900,
+    status: "delivered",
+    status_history: history(
+      ["draft", "2024-05-23T10:30:00.000Z"],
+      ["confirmed", "2024-05-23T10:32:00.000Z"],
+      ["packed", "2024-05-23T13:00:00.000Z"],
+      ["dispatched", "2024-05-23T16:45:00.000Z"],
+      ["delivered", "2024-05-24T10:20:00.000Z"]
+    ),
   },
   {
     id: 4,
@@ -318,11 +421,82 @@ export const mockSaleOrders: SaleOrder[] = [
         product_name: "Stocked Product I",
       },
     ],
-    paid: true,
     invoice_no: "INV-20240522-001",
     invoice_date: "2024-05-22",
     created_at: "2024-05-22T14:15:00.000Z",
     last_modified: "2024-05-22T14:15:00.000Z",
     total_price: 1000,
+    status: "dispatched",
+    status_history: history(
+      ["draft", "2024-05-22T14:15:00.000Z"],
+      ["confirmed", "2024-05-22T14:20:00.000Z"],
+      ["packed", "2024-05-23T09:30:00.000Z"],
+      ["dispatched", "2024-05-23T12:00:00.000Z"]
+    ),
+  },
+];
+
+export const mockPayments: Payment[] = [
+  {
+    id: 1,
+    order_id: 2,
+    amount: 100,
+    payment_date: "2024-05-24",
+    mode: "cash",
+    reference: "",
+    recorded_by: "manager",
+    created_at: "2024-05-24T12:00:00.000Z",
+  },
+  {
+    id: 2,
+    order_id: 3,
+    amount: 1008,
+    payment_date: "2024-05-23",
+    mode: "upi",
+    reference: "414512345678",
+    recorded_by: "manager",
+    created_at: "2024-05-23T10:45:00.000Z",
+  },
+  {
+    id: 3,
+    order_id: 4,
+    amount: 1180,
+    payment_date: "2024-05-24",
+    mode: "bank_transfer",
+    reference: "HDFC0524000117",
+    recorded_by: "manager",
+    created_at: "2024-05-24T09:00:00.000Z",
   },
 ];
+
+// Seed orders get their GST and payment totals worked out the same way the API does on save
+const withTotals = (order: SeedSaleOrder): SaleOrder => {
+  const customer = mockCustomers.find((c) => c.customer_profile.id === order.customer_id);
+  const items = order.items.map((item) => {
+    const product = mockProducts.find((p) => p.sku.some((sku) => sku.id === item.sku_id));
+    const sku = product?.sku.find((s) => s.id === item.sku_id);
+    return {
+      ...item,
+      gst_rate: product && sku ? getSKUGstRate(product, sku) : 0,
+      hsn_code: product?.hsn_code || "",
+      sku_amount: sku?.amount,
+      sku_unit: sku?.unit,
+    };
+  });
+  const supplyType = getSupplyType(SELLER.state_code, getCustomerState(customer.customer_profile));
+  const tax = calculateTax(items, supplyType);
+
+  const grandTotal = getGrandTotal(tax);
+  const payments = mockPayments.filter((payment) => payment.order_id === order.id);
+
+  return {
+    ...order,
+    items,
+    tax,
+    grand_total: grandTotal,
+    billing: getBillingParty(customer.customer_profile),
+    ...summarizePayments(grandTotal, payments),
+  };
+};
+
+export const mockSaleOrders: SaleOrder[] = seedSaleOrders.map(withTotals);
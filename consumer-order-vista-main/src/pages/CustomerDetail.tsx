@@ -0,0 +1,301 @@
+import React from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { Layout } from "@/components/Layout";
+import { CustomerAvatar } from "@/components/CustomerAvatar";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import { formatCurrency } from "@/lib/gst";
+import { orderPath } from "@/lib/routes";
+import { CUSTOMER_TYPE_LABELS, isCustomerActive, summarizeCustomerOrders } from "@/lib/customers";
+import { isOrderVoid } from "@/lib/orders";
+import { cn } from "@/lib/utils";
+
+// Invoices open longer than this count as overdue
+const OVERDUE_DAYS = 30;
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "dd/MM/yyyy") : "—");
+
+const CustomerDetail: React.FC = () => {
+  const customerId = Number(useParams().id);
+
+  const {
+    data: customers,
+    isLoading: isLoadingCustomers,
+    error: customersError,
+  } = useQuery({
+    queryKey: ["customers"],
+    queryFn: api.getCustomers,
+  });
+
+  const customer = customers?.find((c) => c.id === customerId);
+
+  const {
+    data: orders,
+    isLoading: isLoadingOrders,
+    error: ordersError,
+  } = useQuery({
+    queryKey: ["orders", "customer", customerId],
+    queryFn: () => api.getCustomerOrders(customerId),
+    enabled: !!customer,
+  });
+
+  const profileId = customer?.customer_profile.id;
+
+  const {
+    data: creditNotes,
+    isLoading: isLoadingCreditNotes,
+    error: creditNotesError,
+  } = useQuery({
+    queryKey: ["creditNotes", { customer_id: profileId }],
+    queryFn: () => api.getCreditNotes({ customer_id: profileId }),
+    enabled: !!customer,
+  });
+
+  const backLink = (
+    <Link
+      to="/customers"
+      className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+    >
+      <ArrowLeft className="mr-1 h-4 w-4" /> Customers
+    </Link>
+  );
+
+  if (isLoadingCustomers || (customer && (isLoadingOrders || isLoadingCreditNotes))) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const error = customersError || ordersError || creditNotesError;
+
+  if (error || !customer) {
+    return (
+      <Layout>
+        {backLink}
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-destructive">
+            {error ? getErrorMessage(error) : "Customer not found"}
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const profile = customer.customer_profile;
+  const summary = summarizeCustomerOrders(orders || [], creditNotes || []);
+  const paidShare = summary.orderCount ? Math.round((summary.paidCount / summary.orderCount) * 100) : 0;
+  const isOverdue = summary.oldestUnpaidDays > OVERDUE_DAYS;
+
+  const stats = [
+    { label: "Orders", value: String(summary.orderCount) },
+    { label: "Received", value: formatCurrency(summary.paidTotal) },
+    {
+      label: summary.unpaidTotal < 0 ? "In credit" : "Outstanding",
+      value: formatCurrency(Math.abs(summary.unpaidTotal)),
+      highlight: summary.unpaidTotal > 0,
+    },
+    { label: "Last order", value: formatDate(summary.lastOrderDate) },
+  ];
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {backLink}
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-4">
+            <CustomerAvatar profile={profile} className="w-14 h-14 text-xl" />
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-2xl font-bold">{profile.name}</h1>
+                {!isCustomerActive(customer) && <Badge variant="outline">Deactivated</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {CUSTOMER_TYPE_LABELS[profile.type] || profile.type} · {profile.email}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {profile.location_name} - {profile.pincode} · GSTIN: {profile.gst || "Unregistered"}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          {stats.map((stat) => (
+            <Card key={stat.label}>
+              <CardHeader className="pb-2">
+                <CardDescription>{stat.label}</CardDescription>
+                <CardTitle className={cn("text-2xl", stat.highlight && "text-destructive")}>
+                  {stat.value}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Payment behaviour</CardTitle>
+              <CardDescription>
+                {summary.orderCount === 0
+                  ? "No orders yet"
+                  : summary.unpaidTotal <= 0
+                  ? "All invoices are settled"
+                  : isOverdue
+                  ? `Has invoices unpaid for more than ${OVERDUE_DAYS} days`
+                  : "Has open invoices"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Orders paid</span>
+                <span>
+                  {summary.paidCount} of {summary.orderCount} ({paidShare}%)
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Average order value</span>
+                <span>{formatCurrency(summary.averageOrderValue)}</span>
+              </div>
+              {summary.creditTotal > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Credited for returns</span>
+                  <span>{formatCurrency(summary.creditTotal)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Oldest unpaid invoice</span>
+                <span className={cn(isOverdue && "text-destructive font-medium")}>
+                  {summary.oldestUnpaidDate
+                    ? `${formatDate(summary.oldestUnpaidDate)} (${summary.oldestUnpaidDays} days)`
+                    : "—"}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Top products</CardTitle>
+              <CardDescription>By value ordered, before GST</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {summary.topProducts.length === 0 ? (
+                <p className="text-muted-foreground">No products ordered yet.</p>
+              ) : (
+                summary.topProducts.map((product) => (
+                  <div key={product.name} className="flex justify-between gap-4">
+                    <span>
+                      {product.name}
+                      <span className="text-muted-foreground"> × {product.quantity}</span>
+                    </span>
+                    <span>{formatCurrency(product.value)}</span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Orders</h2>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-accent">
+                  <TableHead className="font-medium">Invoice</TableHead>
+                  <TableHead className="font-medium">Invoice Date</TableHead>
+                  <TableHead className="font-medium">Items</TableHead>
+                  <TableHead className="font-medium">Status</TableHead>
+                  <TableHead className="text-right font-medium">Total (₹)</TableHead>
+                  <TableHead className="text-right font-medium">Balance Due (₹)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!orders || orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No orders found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell>
+                        <Link to={orderPath(order.id)} className="font-medium hover:underline">
+                          {order.invoice_no}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatDate(order.invoice_date)}</TableCell>
+                      <TableCell>{order.items.reduce((count, item) => count + item.quantity, 0)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <OrderStatusBadge status={order.status} />
+                          {!isOrderVoid(order) && <PaymentStatusBadge status={order.payment_status} />}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(order.grand_total ?? order.total_price)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(order.balance_due)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {creditNotes && creditNotes.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold">Credit Notes</h2>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-accent">
+                    <TableHead className="font-medium">Credit Note</TableHead>
+                    <TableHead className="font-medium">Date</TableHead>
+                    <TableHead className="font-medium">Against Invoice</TableHead>
+                    <TableHead className="font-medium">Items</TableHead>
+                    <TableHead className="text-right font-medium">Credit (₹)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {creditNotes.map((creditNote) => (
+                    <TableRow key={creditNote.id}>
+                      <TableCell className="font-medium">{creditNote.credit_note_no}</TableCell>
+                      <TableCell>{formatDate(creditNote.credit_note_date)}</TableCell>
+                      <TableCell>
+                        <Link to={orderPath(creditNote.order_id)} className="hover:underline">
+                          {creditNote.invoice_no}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {creditNote.items.reduce((count, item) => count + item.quantity, 0)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(creditNote.grand_total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default CustomerDetail;
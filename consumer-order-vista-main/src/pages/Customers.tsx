@@ -0,0 +1,339 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, ConflictError, getErrorMessage } from "@/api";
+import { Customer, CustomerFormData } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Layout } from "@/components/Layout";
+import { CustomerAvatar } from "@/components/CustomerAvatar";
+import { CustomerForm } from "@/components/CustomerForm";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Search, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { Link } from "react-router-dom";
+import { customerPath } from "@/lib/routes";
+import { useAuth } from "@/contexts/AuthContext";
+import { CUSTOMER_TYPE_LABELS, isCustomerActive, matchesCustomerSearch } from "@/lib/customers";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+const toFormData = (customer: Customer, changes: Partial<CustomerFormData> = {}): CustomerFormData => ({
+  name: customer.customer_profile.name,
+  email: customer.customer_profile.email,
+  pincode: customer.customer_profile.pincode,
+  location_name: customer.customer_profile.location_name,
+  type: customer.customer_profile.type,
+  gst: customer.customer_profile.gst,
+  color: customer.customer_profile.color,
+  is_active: isCustomerActive(customer),
+  ...changes,
+});
+
+const Customers: React.FC = () => {
+  const [search, setSearch] = useState("");
+  const [showInactive, setShowInactive] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Customer | null>(null);
+
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission("customers:manage");
+
+  const {
+    data: customers,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["customers"],
+    queryFn: api.getCustomers,
+  });
+
+  const saveCustomerMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: number; data: CustomerFormData }) =>
+      id === undefined ? api.createCustomer(data) : api.updateCustomer(id, data),
+    onSuccess: (customer, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      setFormOpen(false);
+      toast({
+        title: id === undefined ? "Customer created" : "Customer updated",
+        description: `${customer.customer_profile.name} has been saved.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save customer",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (customer: Customer) =>
+      api.updateCustomer(customer.id, toFormData(customer, { is_active: !isCustomerActive(customer) })),
+    onSuccess: (customer) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      toast({
+        title: isCustomerActive(customer) ? "Customer reactivated" : "Customer deactivated",
+        description: `${customer.customer_profile.name} ${
+          isCustomerActive(customer) ? "can be used on new orders again" : "can no longer be used on new orders"
+        }.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update customer",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: (customer: Customer) => api.deleteCustomer(customer.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      toast({
+        title: "Customer deleted",
+        description: "The customer has been removed.",
+      });
+    },
+    onError: (error, customer) => {
+      // Customers with orders on record can only be deactivated
+      const canDeactivate = error instanceof ConflictError && isCustomerActive(customer);
+
+      toast({
+        title: "Failed to delete customer",
+        description: getErrorMessage(error),
+        variant: "destructive",
+        action: canDeactivate ? (
+          <ToastAction altText="Deactivate customer" onClick={() => toggleActiveMutation.mutate(customer)}>
+            Deactivate
+          </ToastAction>
+        ) : undefined,
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    saveCustomerMutation.reset();
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (customer: Customer) => {
+    saveCustomerMutation.reset();
+    setEditing(customer);
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-destructive">{getErrorMessage(error)}</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const visibleCustomers = (customers || [])
+    .filter((customer) => showInactive || isCustomerActive(customer))
+    .filter((customer) => matchesCustomerSearch(customer, search))
+    .sort((a, b) => a.customer_profile.name.localeCompare(b.customer_profile.name));
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold">Customers</h1>
+          {canManage && (
+            <Button onClick={handleCreate}>
+              <Plus className="mr-2 h-4 w-4" /> Customer
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-center">
+          <div className="relative md:w-96">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Name, email, pincode, location or GSTIN"
+              className="pl-8"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="show-inactive"
+              checked={showInactive}
+              onCheckedChange={(checked) => setShowInactive(checked === true)}
+            />
+            <Label htmlFor="show-inactive" className="font-normal">
+              Show deactivated customers
+            </Label>
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">Customer</TableHead>
+                <TableHead className="font-medium">Location</TableHead>
+                <TableHead className="font-medium">Type</TableHead>
+                <TableHead className="font-medium">GSTIN</TableHead>
+                <TableHead className="font-medium">Status</TableHead>
+                <TableHead className="text-right font-medium">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleCustomers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    No customers found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleCustomers.map((customer) => {
+                  const profile = customer.customer_profile;
+                  const active = isCustomerActive(customer);
+
+                  return (
+                    <TableRow key={customer.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          <CustomerAvatar profile={profile} />
+                          <div>
+                            <Link to={customerPath(customer.id)} className="hover:underline">
+                              {profile.name}
+                            </Link>
+                            <div className="text-muted-foreground text-xs">{profile.email}</div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{profile.location_name}</div>
+                        <div className="text-muted-foreground text-xs">{profile.pincode}</div>
+                      </TableCell>
+                      <TableCell>{CUSTOMER_TYPE_LABELS[profile.type] || profile.type}</TableCell>
+                      <TableCell>{profile.gst || <span className="text-muted-foreground">Unregistered</span>}</TableCell>
+                      <TableCell>
+                        <Badge variant={active ? "secondary" : "outline"}>
+                          {active ? "Active" : "Deactivated"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {canManage && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => handleEdit(customer)}>
+                                Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={toggleActiveMutation.isPending}
+                                onClick={() => toggleActiveMutation.mutate(customer)}
+                              >
+                                {active ? "Deactivate" : "Reactivate"}
+                              </Button>
+                            </>
+                          )}
+                          {hasPermission("customers:delete") && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Delete customer"
+                                  className="text-destructive"
+                                  disabled={deleteCustomerMutation.isPending}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {profile.name}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The customer will be removed permanently. Customers who have ever
+                                    ordered can't be deleted; deactivate them instead.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => deleteCustomerMutation.mutate(customer)}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Create / Edit Customer Modal */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Customer" : "New Customer"}</DialogTitle>
+            <DialogDescription>
+              {editing ? `Update ${editing.customer_profile.name}'s details` : "Add a customer you can bill orders to"}
+            </DialogDescription>
+          </DialogHeader>
+          <CustomerForm
+            key={editing?.id ?? "new"}
+            initialData={editing || undefined}
+            onSubmit={(data) => saveCustomerMutation.mutate({ id: editing?.id, data })}
+            isSubmitting={saveCustomerMutation.isPending}
+            submitError={saveCustomerMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Customers;
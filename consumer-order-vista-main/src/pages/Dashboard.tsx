@@ -1,13 +1,42 @@
-import React, { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@/api";
-import { OrderStatus, SaleOrder, SaleOrderFormData } from "@/types";
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, ApiError, getErrorMessage } from "@/api";
+import {
+  CancelSaleOrderData,
+  ReturnFormData,
+  SaleOrder,
+  SaleOrderFilters,
+  SaleOrderFormData,
+  SaleOrderQuery,
+  SaleOrderSortField,
+} from "@/types";
 import { Button } from "@/components/ui/button";
 import { Layout } from "@/components/Layout";
 import { OrderTable } from "@/components/OrderTable";
 import { OrderForm } from "@/components/OrderForm";
-import { Plus } from "lucide-react";
+import { OrderFilters } from "@/components/OrderFilters";
+import { LowStockPanel } from "@/components/LowStockPanel";
+import { OrderPayments } from "@/components/OrderPayments";
+import { OrderStatusPanel } from "@/components/OrderStatusPanel";
+import { CancelOrderForm } from "@/components/CancelOrderForm";
+import { ReturnForm } from "@/components/ReturnForm";
+import { OrderCreditNotes } from "@/components/OrderCreditNotes";
+import { FileDown, Plus, Printer } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { ORDER_STATUS_TABS, OrderStatusTab, useOrderListParams } from "@/hooks/use-order-list-params";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocation, useMatch, useNavigate } from "react-router-dom";
+import { editOrderPath, NEW_ORDER_PATH, orderPath } from "@/lib/routes";
+import { isOrderEditable, ORDER_STATUS_LABELS } from "@/lib/orders";
+import { formatCurrency } from "@/lib/gst";
+import {
+  downloadInvoice,
+  getInvoiceFileName,
+  printInvoice,
+  renderInvoiceHtml,
+} from "@/lib/invoice";
 import {
   Tabs,
   TabsContent,
@@ -22,14 +51,36 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 
+const PAGE_SIZE = 10;
+
+// Filters typed into a box change on every keystroke
+const TYPED_FILTERS: (keyof SaleOrderFilters)[] = [
+  "search",
+  "invoice_date_from",
+  "invoice_date_to",
+  "min_price",
+  "max_price",
+];
+
 const Dashboard: React.FC = () => {
-  const [status, setStatus] = useState<OrderStatus>("active");
-  const [createModalOpen, setCreateModalOpen] = useState(false);
-  const [editModalOpen, setEditModalOpen] = useState(false);
-  const [viewModalOpen, setViewModalOpen] = useState(false);
-  const [selectedOrder, setSelectedOrder] = useState<SaleOrder | null>(null);
-  
+  const [{ status, filters, page, sortBy, sortOrder }, setListParams] = useOrderListParams();
+  const [cancellingOrder, setCancellingOrder] = useState<SaleOrder | null>(null);
+  const [returningOrder, setReturningOrder] = useState<SaleOrder | null>(null);
+
   const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Dialogs follow the URL (/orders/new, /orders/:id, /orders/:id/edit) so
+  // they can be linked to directly
+  const createMatch = useMatch(NEW_ORDER_PATH);
+  const viewMatch = useMatch("/orders/:id");
+  const editMatch = useMatch("/orders/:id/edit");
+  const orderId = createMatch ? undefined : Number((editMatch || viewMatch)?.params.id) || undefined;
+
+  const openDialog = (pathname: string) => navigate({ pathname, search: location.search });
+  const closeDialog = () => navigate({ pathname: "/", search: location.search });
   
   // Fetch customers, products, orders with useQuery
   const {
@@ -50,21 +101,72 @@ const Dashboard: React.FC = () => {
     queryFn: api.getProducts,
   });
   
+  // Typing in the search box shouldn't fire a request per keystroke
+  const debouncedSearch = useDebounce(filters.search);
+
+  const orderQuery: SaleOrderQuery = {
+    ...filters,
+    search: debouncedSearch,
+    status: status === "all" ? undefined : status,
+    page,
+    page_size: PAGE_SIZE,
+    sort_by: sortBy,
+    sort_order: sortOrder,
+  };
+
   const {
     data: orders,
     isLoading: isLoadingOrders,
     error: ordersError,
   } = useQuery({
-    queryKey: ["orders", status],
-    queryFn: () => api.getSaleOrders(status),
+    queryKey: ["orders", orderQuery],
+    queryFn: () => api.getSaleOrders(orderQuery),
+    placeholderData: keepPreviousData,
   });
+
+  const {
+    data: selectedOrder,
+    error: selectedOrderError,
+  } = useQuery({
+    queryKey: ["orders", "detail", orderId],
+    queryFn: () => api.getSaleOrder(orderId),
+    enabled: orderId !== undefined,
+  });
+
+  useEffect(() => {
+    if (!selectedOrderError) return;
+
+    toast({
+      title: "Failed to open order",
+      description: getErrorMessage(selectedOrderError),
+      variant: "destructive",
+    });
+    navigate({ pathname: "/", search: location.search }, { replace: true });
+  }, [selectedOrderError, navigate, location.search]);
+
+  // Orders are read-only once packed, and when fully paid except for admins; others get the view instead
+  const canEditSelected =
+    !!selectedOrder &&
+    isOrderEditable(selectedOrder) &&
+    hasPermission(selectedOrder.payment_status === "paid" ? "orders:edit_completed" : "orders:edit");
+  const createModalOpen = !!createMatch && hasPermission("orders:create");
+  const editModalOpen = !!editMatch && canEditSelected;
+  const viewModalOpen = !!selectedOrder && (!!viewMatch || (!!editMatch && !canEditSelected));
+
+  // Step back when the current page empties out (e.g. its last order was dispatched)
+  useEffect(() => {
+    if (orders && orders.items.length === 0 && orders.total > 0 && page > 1) {
+      setListParams({ page: Math.ceil(orders.total / PAGE_SIZE) }, { replace: true });
+    }
+  }, [orders, page, setListParams]);
   
   // Create order mutation
   const createOrderMutation = useMutation({
     mutationFn: (data: SaleOrderFormData) => api.createSaleOrder(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["orders"] });
-      setCreateModalOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      closeDialog();
       toast({
         title: "Order created",
         description: "Your order has been created successfully.",
@@ -73,7 +175,7 @@ const Dashboard: React.FC = () => {
     onError: (error) => {
       toast({
         title: "Failed to create order",
-        description: error instanceof Error ? error.message : "An error occurred",
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -85,8 +187,8 @@ const Dashboard: React.FC = () => {
       api.updateSaleOrder(id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["orders"] });
-      setEditModalOpen(false);
-      setSelectedOrder(null);
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      closeDialog();
       toast({
         title: "Order updated",
         description: "Your order has been updated successfully.",
@@ -95,21 +197,79 @@ const Dashboard: React.FC = () => {
     onError: (error) => {
       toast({
         title: "Failed to update order",
-        description: error instanceof Error ? error.message : "An error occurred",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Cancel order mutation; the order and its invoice number are kept
+  const cancelOrderMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: CancelSaleOrderData }) =>
+      api.cancelSaleOrder(id, data),
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["creditNotes"] });
+      setCancellingOrder(null);
+      toast({
+        title: "Order cancelled",
+        description: `${order.invoice_no} has been cancelled and its items returned to stock.${
+          order.cancellation?.credit_note_no
+            ? ` Credit note ${order.cancellation.credit_note_no} reverses the invoice.`
+            : ""
+        }`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel order",
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
   });
   
+  // Return mutation; issues a credit note and puts the goods back in stock
+  const returnOrderMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: ReturnFormData }) => api.createReturn(id, data),
+    onSuccess: (creditNote) => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["creditNotes"] });
+      setReturningOrder(null);
+      toast({
+        title: "Return recorded",
+        description: `Credit note ${creditNote.credit_note_no} issued against ${creditNote.invoice_no}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to record return",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // What has already come back limits what can be returned now
+  const {
+    data: returningCreditNotes,
+    isLoading: isLoadingReturningCreditNotes,
+  } = useQuery({
+    queryKey: ["creditNotes", { order_id: returningOrder?.id }],
+    queryFn: () => api.getCreditNotes({ order_id: returningOrder.id }),
+    enabled: !!returningOrder,
+  });
+
   // Type-safe handler functions
   const handleCreateOrder = (data: any) => {
     // Ensure all required properties are present before submitting
     const formData: SaleOrderFormData = {
       customer_id: data.customer_id,
       items: data.items || [],
-      paid: data.paid || false,
-      invoice_no: data.invoice_no,
-      invoice_date: data.invoice_date.toISOString().split('T')[0], // Format date as YYYY-MM-DD
+      invoice_date: format(data.invoice_date, "yyyy-MM-dd"), // The picked day, in local time
+      allow_backorder: data.allow_backorder || false,
     };
     createOrderMutation.mutate(formData);
   };
@@ -120,22 +280,88 @@ const Dashboard: React.FC = () => {
       const formData: SaleOrderFormData = {
         customer_id: data.customer_id,
         items: data.items || [],
-        paid: data.paid || false,
-        invoice_no: data.invoice_no,
-        invoice_date: data.invoice_date.toISOString().split('T')[0], // Format date as YYYY-MM-DD
+        invoice_date: format(data.invoice_date, "yyyy-MM-dd"), // The picked day, in local time
+        allow_backorder: data.allow_backorder || false,
       };
       updateOrderMutation.mutate({ id: selectedOrder.id, data: formData });
     }
   };
   
+  const handleStatusChange = (value: string) => {
+    setListParams({ status: value as OrderStatusTab, page: 1 });
+  };
+
+  // Typing in a filter replaces the history entry instead of adding one per keystroke;
+  // picking a customer or payment status still gets an entry of its own
+  const handleFiltersChange = (value: SaleOrderFilters) => {
+    const changed = (Object.keys({ ...filters, ...value }) as (keyof SaleOrderFilters)[]).filter(
+      (key) => (value[key] ?? "") !== (filters[key] ?? "")
+    );
+
+    setListParams(
+      { filters: value, page: 1 },
+      { replace: changed.length > 0 && changed.every((key) => TYPED_FILTERS.includes(key)) }
+    );
+  };
+
+  const handleSortChange = (field: SaleOrderSortField) => {
+    if (field === sortBy) {
+      setListParams({ sortOrder: sortOrder === "asc" ? "desc" : "asc", page: 1 });
+    } else {
+      setListParams({ sortBy: field, sortOrder: "asc", page: 1 });
+    }
+  };
+
+  const handlePageChange = (value: number) => {
+    setListParams({ page: value });
+  };
+
+  const handleOpenCreate = () => {
+    createOrderMutation.reset();
+    openDialog(NEW_ORDER_PATH);
+  };
+
   const handleEditOrder = (order: SaleOrder) => {
-    setSelectedOrder(order);
-    setEditModalOpen(true);
+    updateOrderMutation.reset();
+    queryClient.setQueryData(["orders", "detail", order.id], order);
+    openDialog(editOrderPath(order.id));
   };
   
+  const getInvoiceHtml = (order: SaleOrder) => renderInvoiceHtml(order);
+
+  const handleDownloadInvoice = (order: SaleOrder) => {
+    downloadInvoice(getInvoiceHtml(order), getInvoiceFileName(order));
+  };
+
+  const handlePrintInvoice = (order: SaleOrder) => {
+    try {
+      printInvoice(getInvoiceHtml(order));
+    } catch (error) {
+      toast({
+        title: "Failed to print invoice",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleViewOrder = (order: SaleOrder) => {
-    setSelectedOrder(order);
-    setViewModalOpen(true);
+    queryClient.setQueryData(["orders", "detail", order.id], order);
+    openDialog(orderPath(order.id));
+  };
+
+  const handleCancelOrder = (order: SaleOrder) => {
+    cancelOrderMutation.reset();
+    setCancellingOrder(order);
+  };
+
+  const handleReturnOrder = (order: SaleOrder) => {
+    returnOrderMutation.reset();
+    setReturningOrder(order);
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    if (!open) closeDialog();
   };
   
   const isLoading = isLoadingCustomers || isLoadingProducts || isLoadingOrders;
@@ -155,9 +381,16 @@ const Dashboard: React.FC = () => {
     return (
       <Layout>
         <div className="flex items-center justify-center h-64">
-          <p className="text-lg text-destructive">
-            Error loading data. Please try again.
-          </p>
+          <div className="text-center space-y-4">
+            <p className="text-lg text-destructive">
+              {error instanceof ApiError
+                ? getErrorMessage(error)
+                : "Error loading data. Please try again."}
+            </p>
+            <Button variant="outline" onClick={() => queryClient.refetchQueries({ type: "active" })}>
+              Try again
+            </Button>
+          </div>
         </div>
       </Layout>
     );
@@ -168,41 +401,60 @@ const Dashboard: React.FC = () => {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
           <h1 className="text-2xl font-bold">Sale Orders</h1>
-          <Button onClick={() => setCreateModalOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" /> Sale Order
-          </Button>
+          {hasPermission("orders:create") && (
+            <Button onClick={handleOpenCreate}>
+              <Plus className="mr-2 h-4 w-4" /> Sale Order
+            </Button>
+          )}
         </div>
 
+        <LowStockPanel products={products || []} />
+
         <Tabs
-          defaultValue="active"
+          defaultValue="all"
           value={status}
-          onValueChange={(value) => setStatus(value as OrderStatus)}
+          onValueChange={handleStatusChange}
         >
-          <TabsList>
-            <TabsTrigger value="active">Active Sale Orders</TabsTrigger>
-            <TabsTrigger value="completed">Completed Sale Orders</TabsTrigger>
+          <TabsList className="h-auto flex-wrap">
+            {ORDER_STATUS_TABS.map((tab) => (
+              <TabsTrigger key={tab} value={tab}>
+                {tab === "all" ? "All" : ORDER_STATUS_LABELS[tab]}
+              </TabsTrigger>
+            ))}
           </TabsList>
-          <TabsContent value="active">
-            <OrderTable
-              orders={orders || []}
-              status="active"
-              onEditOrder={handleEditOrder}
-              onViewOrder={handleViewOrder}
-            />
-          </TabsContent>
-          <TabsContent value="completed">
-            <OrderTable
-              orders={orders || []}
-              status="completed"
-              onEditOrder={handleEditOrder}
-              onViewOrder={handleViewOrder}
+          <div className="mt-4">
+            <OrderFilters
+              customers={customers || []}
+              filters={filters}
+              onChange={handleFiltersChange}
             />
-          </TabsContent>
+          </div>
+          {ORDER_STATUS_TABS.map((tab) => (
+            <TabsContent key={tab} value={tab}>
+              <OrderTable
+                orders={orders?.items || []}
+                customers={customers || []}
+                total={orders?.total || 0}
+                page={page}
+                pageSize={PAGE_SIZE}
+                sortBy={sortBy}
+                sortOrder={sortOrder}
+                onPageChange={handlePageChange}
+                onSortChange={handleSortChange}
+                onEditOrder={handleEditOrder}
+                onViewOrder={handleViewOrder}
+                onRecordPayment={handleViewOrder}
+                onCancelOrder={handleCancelOrder}
+                onReturnOrder={handleReturnOrder}
+                onDownloadInvoice={handleDownloadInvoice}
+              />
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
 
       {/* Create Order Modal */}
-      <Dialog open={createModalOpen} onOpenChange={setCreateModalOpen}>
+      <Dialog open={createModalOpen} onOpenChange={handleDialogOpenChange}>
         <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create Sale Order</DialogTitle>
@@ -215,12 +467,14 @@ const Dashboard: React.FC = () => {
             products={products || []}
             onSubmit={handleCreateOrder}
             isSubmitting={createOrderMutation.isPending}
+            canBackorder={hasPermission("orders:backorder")}
+            submitError={createOrderMutation.error}
           />
         </DialogContent>
       </Dialog>
 
       {/* Edit Order Modal */}
-      <Dialog open={editModalOpen} onOpenChange={setEditModalOpen}>
+      <Dialog open={editModalOpen} onOpenChange={handleDialogOpenChange}>
         <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Sale Order</DialogTitle>
@@ -230,18 +484,35 @@ const Dashboard: React.FC = () => {
           </DialogHeader>
           {selectedOrder && (
             <OrderForm
+              key={selectedOrder.id}
               initialData={selectedOrder}
               customers={customers || []}
               products={products || []}
               onSubmit={handleUpdateOrder}
               isSubmitting={updateOrderMutation.isPending}
+              canBackorder={hasPermission("orders:backorder")}
+              submitError={updateOrderMutation.error}
             />
           )}
+          {selectedOrder && (
+            <div className="border-t pt-4">
+              <OrderStatusPanel
+                order={selectedOrder}
+                onCancelOrder={handleCancelOrder}
+                onReturnOrder={handleReturnOrder}
+              />
+            </div>
+          )}
+          {selectedOrder && (
+            <div className="border-t pt-4">
+              <OrderPayments order={selectedOrder} />
+            </div>
+          )}
         </DialogContent>
       </Dialog>
 
       {/* View Order Modal */}
-      <Dialog open={viewModalOpen} onOpenChange={setViewModalOpen}>
+      <Dialog open={viewModalOpen} onOpenChange={handleDialogOpenChange}>
         <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>View Sale Order</DialogTitle>
@@ -251,6 +522,7 @@ const Dashboard: React.FC = () => {
           </DialogHeader>
           {selectedOrder && (
             <OrderForm
+              key={selectedOrder.id}
               initialData={selectedOrder}
               customers={customers || []}
               products={products || []}
@@ -259,6 +531,87 @@ const Dashboard: React.FC = () => {
               readOnly={true}
             />
           )}
+          {selectedOrder && (
+            <div className="border-t pt-4">
+              <OrderStatusPanel
+                order={selectedOrder}
+                onCancelOrder={handleCancelOrder}
+                onReturnOrder={handleReturnOrder}
+              />
+            </div>
+          )}
+          {selectedOrder && (
+            <div className="border-t pt-4">
+              <OrderPayments order={selectedOrder} />
+            </div>
+          )}
+          {selectedOrder && (
+            <OrderCreditNotes order={selectedOrder} />
+          )}
+          {selectedOrder && (
+            <div className="flex justify-end gap-2 border-t pt-4">
+              <Button variant="outline" onClick={() => handleDownloadInvoice(selectedOrder)}>
+                <FileDown className="mr-2 h-4 w-4" /> Download Invoice
+              </Button>
+              <Button onClick={() => handlePrintInvoice(selectedOrder)}>
+                <Printer className="mr-2 h-4 w-4" /> Print / Save as PDF
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Order Modal */}
+      <Dialog open={!!cancellingOrder} onOpenChange={(open) => !open && setCancellingOrder(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel Sale Order</DialogTitle>
+            <DialogDescription>
+              {cancellingOrder?.invoice_no} stays on record as cancelled and its items go back
+              into stock. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {cancellingOrder?.amount_received > 0 && (
+            <p className="text-sm">
+              {formatCurrency(cancellingOrder.amount_received)} has been received against this order. A
+              credit note will reverse the invoice and the payment stays on the customer's account as
+              credit.
+            </p>
+          )}
+          {cancellingOrder && (
+            <CancelOrderForm
+              key={cancellingOrder.id}
+              onSubmit={(data) => cancelOrderMutation.mutate({ id: cancellingOrder.id, data })}
+              isSubmitting={cancelOrderMutation.isPending}
+              submitError={cancelOrderMutation.error}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Return Order Modal */}
+      <Dialog open={!!returningOrder} onOpenChange={(open) => !open && setReturningOrder(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Return Items</DialogTitle>
+            <DialogDescription>
+              Returned items go back into stock and a credit note is issued against{" "}
+              {returningOrder?.invoice_no}, reversing their GST.
+            </DialogDescription>
+          </DialogHeader>
+          {returningOrder &&
+            (isLoadingReturningCreditNotes ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <ReturnForm
+                key={returningOrder.id}
+                order={returningOrder}
+                creditNotes={returningCreditNotes || []}
+                onSubmit={(data) => returnOrderMutation.mutate({ id: returningOrder.id, data })}
+                isSubmitting={returnOrderMutation.isPending}
+                submitError={returnOrderMutation.error}
+              />
+            ))}
         </DialogContent>
       </Dialog>
     </Layout>
@@ -0,0 +1,221 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, getErrorMessage } from "@/api";
+import { SKU, StockAdjustmentData } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Layout } from "@/components/Layout";
+import { StockLedgerDialog } from "@/components/StockLedgerDialog";
+import { StockAdjustmentForm } from "@/components/StockAdjustmentForm";
+import { StockLevelBadge } from "@/components/StockLevelBadge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileDown, History, PackagePlus } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { isSKUOnSale } from "@/lib/products";
+import { downloadReorderList, getReorderSuggestions, getStockLevel } from "@/lib/inventory";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+interface SelectedSKU {
+  sku: SKU;
+  productName: string;
+}
+
+const Inventory: React.FC = () => {
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [adjustOpen, setAdjustOpen] = useState(false);
+  const [selected, setSelected] = useState<SelectedSKU | null>(null);
+
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+
+  const {
+    data: products,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["products"],
+    queryFn: api.getProducts,
+  });
+
+  const adjustStockMutation = useMutation({
+    mutationFn: (data: StockAdjustmentData) => api.adjustStock(data),
+    onSuccess: (sku) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements", sku.id] });
+      setAdjustOpen(false);
+      toast({
+        title: "Stock updated",
+        description: `SKU #${sku.id} now has ${sku.quantity_in_inventory} in stock.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update stock",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleShowHistory = (sku: SKU, productName: string) => {
+    setSelected({ sku, productName });
+    setHistoryOpen(true);
+  };
+
+  const handleAdjust = (sku: SKU, productName: string) => {
+    adjustStockMutation.reset();
+    setSelected({ sku, productName });
+    setAdjustOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-destructive">{getErrorMessage(error)}</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const rows = (products || []).flatMap((product) =>
+    product.sku.map((sku) => ({ product, sku }))
+  );
+
+  const reorderSuggestions = getReorderSuggestions(products || []);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold">Inventory</h1>
+          <Button
+            variant="outline"
+            disabled={reorderSuggestions.length === 0}
+            onClick={() => downloadReorderList(reorderSuggestions)}
+          >
+            <FileDown className="mr-2 h-4 w-4" /> Reorder list ({reorderSuggestions.length})
+          </Button>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">Product</TableHead>
+                <TableHead className="font-medium">SKU</TableHead>
+                <TableHead className="font-medium">Selling Price (₹)</TableHead>
+                <TableHead className="text-right font-medium">In Stock</TableHead>
+                <TableHead className="text-right font-medium">Reorder Level</TableHead>
+                <TableHead className="text-right font-medium">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    No products found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(({ product, sku }) => (
+                  <TableRow key={sku.id}>
+                    <TableCell className="font-medium">
+                      <div>{product.name}</div>
+                      <div className="text-muted-foreground text-xs">{product.brand}</div>
+                    </TableCell>
+                    <TableCell>
+                      {sku.amount} {sku.unit}
+                      <span className="text-muted-foreground text-xs ml-2">#{sku.id}</span>
+                      {!isSKUOnSale(sku) && (
+                        <Badge variant="outline" className="ml-2">
+                          Retired
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>₹{sku.selling_price}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {isSKUOnSale(sku) && <StockLevelBadge level={getStockLevel(sku)} />}
+                        {sku.quantity_in_inventory}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{sku.reorder_level || 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleShowHistory(sku, product.name)}
+                        >
+                          <History className="mr-2 h-4 w-4" /> History
+                        </Button>
+                        {hasPermission("inventory:adjust") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAdjust(sku, product.name)}
+                          >
+                            <PackagePlus className="mr-2 h-4 w-4" /> Adjust
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <StockLedgerDialog
+        sku={selected?.sku || null}
+        productName={selected?.productName || ""}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+
+      {/* Stock Adjustment Modal */}
+      <Dialog open={adjustOpen} onOpenChange={setAdjustOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Adjust Stock</DialogTitle>
+            <DialogDescription>
+              {selected
+                ? `${selected.productName} · ${selected.sku.amount} ${selected.sku.unit} · ${selected.sku.quantity_in_inventory} in stock`
+                : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <StockAdjustmentForm
+              sku={selected.sku}
+              onSubmit={(data) => adjustStockMutation.mutate(data)}
+              isSubmitting={adjustStockMutation.isPending}
+              submitError={adjustStockMutation.error}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Inventory;
@@ -23,6 +23,8 @@ import {
 } from "@/components/ui/form";
 import { useAuth } from "@/contexts/AuthContext";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { Navigate, useLocation } from "react-router-dom";
+import { getReturnTo } from "@/lib/routes";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -32,7 +34,8 @@ const loginSchema = z.object({
 type LoginFormValues = z.infer<typeof loginSchema>;
 
 const Login: React.FC = () => {
-  const { login } = useAuth();
+  const { login, isAuthenticated } = useAuth();
+  const location = useLocation();
   
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -52,6 +55,10 @@ const Login: React.FC = () => {
     }
   };
 
+  if (isAuthenticated && !isSubmitting) {
+    return <Navigate to={getReturnTo(location.state)} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <div className="absolute top-4 right-4">
@@ -109,7 +116,7 @@ const Login: React.FC = () => {
         </CardContent>
         <CardFooter className="flex flex-col space-y-2">
           <p className="text-sm text-muted-foreground text-center">
-            Demo credentials: username - "admin", password - "password"
+            Demo credentials: username - "admin", "manager", "user" or "viewer", password - "password"
           </p>
         </CardFooter>
       </Card>
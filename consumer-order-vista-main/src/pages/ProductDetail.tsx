@@ -0,0 +1,345 @@
+import React, { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { ProductFormData, SKU, SKUFormData } from "@/types";
+import { Layout } from "@/components/Layout";
+import { ProductForm } from "@/components/ProductForm";
+import { SKUForm } from "@/components/SKUForm";
+import { StockLevelBadge } from "@/components/StockLevelBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Plus } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency, getSKUGstRate } from "@/lib/gst";
+import { getStockLevel } from "@/lib/inventory";
+import { isSKUOnSale } from "@/lib/products";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+const toSKUFormData = (sku: SKU, changes: Partial<SKUFormData> = {}): SKUFormData => ({
+  amount: sku.amount,
+  unit: sku.unit,
+  selling_price: sku.selling_price,
+  max_retail_price: sku.max_retail_price,
+  gst_rate: sku.gst_rate ?? null,
+  reorder_level: sku.reorder_level ?? 0,
+  reorder_quantity: sku.reorder_quantity ?? 0,
+  is_retired: !isSKUOnSale(sku),
+  opening_stock: sku.quantity_in_inventory,
+  ...changes,
+});
+
+const ProductDetail: React.FC = () => {
+  const productId = Number(useParams().id);
+  const [productFormOpen, setProductFormOpen] = useState(false);
+  const [skuFormOpen, setSkuFormOpen] = useState(false);
+  const [editingSku, setEditingSku] = useState<SKU | null>(null);
+
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission("products:manage");
+
+  const {
+    data: products,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["products"],
+    queryFn: api.getProducts,
+  });
+
+  const product = products?.find((p) => p.id === productId);
+
+  const saveProductMutation = useMutation({
+    mutationFn: (data: ProductFormData) => api.updateProduct(productId, data),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      setProductFormOpen(false);
+      toast({
+        title: "Product updated",
+        description: `${saved.name} has been saved.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save product",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveSkuMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: number; data: SKUFormData }) =>
+      id === undefined ? api.createSKU(productId, data) : api.updateSKU(id, data),
+    onSuccess: (sku, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements", sku.id] });
+      setSkuFormOpen(false);
+      toast({
+        title: id === undefined ? "SKU added" : "SKU updated",
+        description: `${sku.amount} ${sku.unit} (SKU #${sku.id}) has been saved.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save SKU",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRetiredMutation = useMutation({
+    mutationFn: (sku: SKU) => api.updateSKU(sku.id, toSKUFormData(sku, { is_retired: isSKUOnSale(sku) })),
+    onSuccess: (sku) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      toast({
+        title: isSKUOnSale(sku) ? "SKU reinstated" : "SKU retired",
+        description: `SKU #${sku.id} ${
+          isSKUOnSale(sku) ? "can be sold again" : "can no longer be added to orders"
+        }.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update SKU",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditProduct = () => {
+    saveProductMutation.reset();
+    setProductFormOpen(true);
+  };
+
+  const handleAddSku = () => {
+    saveSkuMutation.reset();
+    setEditingSku(null);
+    setSkuFormOpen(true);
+  };
+
+  const handleEditSku = (sku: SKU) => {
+    saveSkuMutation.reset();
+    setEditingSku(sku);
+    setSkuFormOpen(true);
+  };
+
+  const backLink = (
+    <Link
+      to="/products"
+      className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+    >
+      <ArrowLeft className="mr-1 h-4 w-4" /> Products
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || !product) {
+    return (
+      <Layout>
+        {backLink}
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-destructive">
+            {error ? getErrorMessage(error) : "Product not found"}
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  // SKUs on sale first, then by size
+  const skus = [...product.sku].sort(
+    (a, b) => Number(!isSKUOnSale(a)) - Number(!isSKUOnSale(b)) || a.amount - b.amount
+  );
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {backLink}
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">{product.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {product.brand} · {product.category}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              HSN {product.hsn_code} · GST {product.gst_rate}% · Added{" "}
+              {format(new Date(product.adding_date), "dd/MM/yyyy")} · Updated{" "}
+              {format(new Date(product.updated_on), "dd/MM/yyyy (HH:mm)")}
+            </p>
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={handleEditProduct}>
+              Edit Product
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Characteristics</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm whitespace-pre-line">
+              {product.characteristics || <span className="text-muted-foreground">None</span>}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Features</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm whitespace-pre-line">
+              {product.features || <span className="text-muted-foreground">None</span>}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold">SKUs</h2>
+          {canManage && (
+            <Button onClick={handleAddSku}>
+              <Plus className="mr-2 h-4 w-4" /> SKU
+            </Button>
+          )}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">SKU</TableHead>
+                <TableHead className="font-medium">Selling Price (₹)</TableHead>
+                <TableHead className="font-medium">MRP (₹)</TableHead>
+                <TableHead className="font-medium">GST</TableHead>
+                <TableHead className="text-right font-medium">In Stock</TableHead>
+                <TableHead className="text-right font-medium">Reorder Level</TableHead>
+                <TableHead className="font-medium">Status</TableHead>
+                <TableHead className="text-right font-medium">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {skus.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    No SKUs yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                skus.map((sku) => {
+                  const onSale = isSKUOnSale(sku);
+
+                  return (
+                    <TableRow key={sku.id}>
+                      <TableCell className="font-medium">
+                        {sku.amount} {sku.unit}
+                        <span className="text-muted-foreground text-xs ml-2">#{sku.id}</span>
+                      </TableCell>
+                      <TableCell>{formatCurrency(sku.selling_price)}</TableCell>
+                      <TableCell>{formatCurrency(sku.max_retail_price)}</TableCell>
+                      <TableCell>{getSKUGstRate(product, sku)}%</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {onSale && <StockLevelBadge level={getStockLevel(sku)} />}
+                          {sku.quantity_in_inventory}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {sku.reorder_level || 0}
+                        <div className="text-muted-foreground text-xs">order {sku.reorder_quantity || 0}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={onSale ? "secondary" : "outline"}>
+                          {onSale ? "On sale" : "Retired"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canManage && (
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => handleEditSku(sku)}>
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={toggleRetiredMutation.isPending}
+                              onClick={() => toggleRetiredMutation.mutate(sku)}
+                            >
+                              {onSale ? "Retire" : "Reinstate"}
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Edit Product Modal */}
+      <Dialog open={productFormOpen} onOpenChange={setProductFormOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Product</DialogTitle>
+            <DialogDescription>Update {product.name}</DialogDescription>
+          </DialogHeader>
+          <ProductForm
+            initialData={product}
+            onSubmit={(data) => saveProductMutation.mutate(data)}
+            isSubmitting={saveProductMutation.isPending}
+            submitError={saveProductMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Add / Edit SKU Modal */}
+      <Dialog open={skuFormOpen} onOpenChange={setSkuFormOpen}>
+        <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSku ? "Edit SKU" : "New SKU"}</DialogTitle>
+            <DialogDescription>
+              {editingSku
+                ? `${editingSku.amount} ${editingSku.unit} · SKU #${editingSku.id}`
+                : `Add a pack size for ${product.name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <SKUForm
+            key={editingSku?.id ?? "new"}
+            product={product}
+            initialData={editingSku || undefined}
+            onSubmit={(data) => saveSkuMutation.mutate({ id: editingSku?.id, data })}
+            isSubmitting={saveSkuMutation.isPending}
+            submitError={saveSkuMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default ProductDetail;
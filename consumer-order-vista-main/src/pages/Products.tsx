@@ -0,0 +1,222 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { api, getErrorMessage } from "@/api";
+import { Product, ProductFormData } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Layout } from "@/components/Layout";
+import { ProductForm } from "@/components/ProductForm";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Search } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { productPath } from "@/lib/routes";
+import { isSKUOnSale } from "@/lib/products";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+const matchesProductSearch = (product: Product, search: string) => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  return [product.name, product.brand, product.category, product.hsn_code].some((value) =>
+    value?.toLowerCase().includes(term)
+  );
+};
+
+const Products: React.FC = () => {
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Product | null>(null);
+
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission("products:manage");
+
+  const {
+    data: products,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["products"],
+    queryFn: api.getProducts,
+  });
+
+  const saveProductMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: number; data: ProductFormData }) =>
+      id === undefined ? api.createProduct(data) : api.updateProduct(id, data),
+    onSuccess: (product, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      setFormOpen(false);
+      toast({
+        title: id === undefined ? "Product created" : "Product updated",
+        description: `${product.name} has been saved.`,
+      });
+      // A new product can't be sold until it has SKUs, so go straight to it
+      if (id === undefined) {
+        navigate(productPath(product.id));
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save product",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    saveProductMutation.reset();
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (product: Product) => {
+    saveProductMutation.reset();
+    setEditing(product);
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-destructive">{getErrorMessage(error)}</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const visibleProducts = (products || [])
+    .filter((product) => matchesProductSearch(product, search))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold">Products</h1>
+          {canManage && (
+            <Button onClick={handleCreate}>
+              <Plus className="mr-2 h-4 w-4" /> Product
+            </Button>
+          )}
+        </div>
+
+        <div className="relative md:w-96">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Name, brand, category or HSN code"
+            className="pl-8"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">Product</TableHead>
+                <TableHead className="font-medium">Category</TableHead>
+                <TableHead className="font-medium">HSN · GST</TableHead>
+                <TableHead className="text-right font-medium">SKUs</TableHead>
+                <TableHead className="font-medium">Last Updated</TableHead>
+                <TableHead className="text-right font-medium">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleProducts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    No products found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleProducts.map((product) => {
+                  const onSale = product.sku.filter(isSKUOnSale).length;
+
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">
+                        <Link to={productPath(product.id)} className="hover:underline">
+                          {product.name}
+                        </Link>
+                        <div className="text-muted-foreground text-xs">{product.brand}</div>
+                      </TableCell>
+                      <TableCell>{product.category}</TableCell>
+                      <TableCell>
+                        {product.hsn_code} · {product.gst_rate}%
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {onSale}
+                        {onSale < product.sku.length && (
+                          <span className="text-muted-foreground text-xs ml-1">
+                            (+{product.sku.length - onSale} retired)
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(new Date(product.updated_on), "dd/MM/yyyy (HH:mm)")}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {canManage && (
+                            <Button variant="outline" size="sm" onClick={() => handleEdit(product)}>
+                              Edit
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" asChild>
+                            <Link to={productPath(product.id)}>SKUs</Link>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Create / Edit Product Modal */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Product" : "New Product"}</DialogTitle>
+            <DialogDescription>
+              {editing ? `Update ${editing.name}` : "Add a product, then its SKUs"}
+            </DialogDescription>
+          </DialogHeader>
+          <ProductForm
+            key={editing?.id ?? "new"}
+            initialData={editing || undefined}
+            onSubmit={(data) => saveProductMutation.mutate({ id: editing?.id, data })}
+            isSubmitting={saveProductMutation.isPending}
+            submitError={saveProductMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Products;
@@ -0,0 +1,433 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { api, getErrorMessage, ValidationError } from "@/api";
+import { Quotation, QuotationFormData } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Layout } from "@/components/Layout";
+import { QuotationForm } from "@/components/QuotationForm";
+import { QuotationStatusBadge } from "@/components/QuotationStatusBadge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRightLeft, FileDown, History, Plus, Printer, Search } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  QUOTATION_STATUS_TABS,
+  QuotationStatusTab,
+  useQuotationListParams,
+} from "@/hooks/use-quotation-list-params";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatCurrency } from "@/lib/gst";
+import { orderPath } from "@/lib/routes";
+import {
+  canConvertQuotation,
+  formatQuoteNo,
+  getQuotationStatus,
+  getQuotationVersions,
+  isQuotationEditable,
+  QUOTATION_STATUS_LABELS,
+} from "@/lib/quotations";
+import {
+  downloadInvoice,
+  getQuotationFileName,
+  printInvoice,
+  renderQuotationHtml,
+} from "@/lib/invoice";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+const formatDate = (value: string) => format(new Date(value), "dd/MM/yyyy");
+
+const matchesQuotationSearch = (quotation: Quotation, search: string) => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  return [quotation.quote_no, quotation.customer_name].some((value) =>
+    value.toLowerCase().includes(term)
+  );
+};
+
+const Quotations: React.FC = () => {
+  const [{ status, search }, setListParams] = useQuotationListParams();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Quotation | null>(null);
+  const [history, setHistory] = useState<Quotation | null>(null);
+
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission("quotations:manage");
+  const canConvert = canManage && hasPermission("orders:create");
+
+  const {
+    data: quotations,
+    isLoading: isLoadingQuotations,
+    error: quotationsError,
+  } = useQuery({
+    queryKey: ["quotations"],
+    queryFn: api.getQuotations,
+  });
+
+  const {
+    data: customers,
+    isLoading: isLoadingCustomers,
+    error: customersError,
+  } = useQuery({
+    queryKey: ["customers"],
+    queryFn: api.getCustomers,
+  });
+
+  const {
+    data: products,
+    isLoading: isLoadingProducts,
+    error: productsError,
+  } = useQuery({
+    queryKey: ["products"],
+    queryFn: api.getProducts,
+  });
+
+  const saveQuotationMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: number; data: QuotationFormData }) =>
+      id === undefined ? api.createQuotation(data) : api.updateQuotation(id, data),
+    onSuccess: (quotation, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
+      setFormOpen(false);
+      toast({
+        title: id === undefined ? "Quotation created" : "Quotation revised",
+        description: `${formatQuoteNo(quotation)} has been saved.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save quotation",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Copies the quoted lines into a new sale order, which reserves the stock
+  const convertQuotationMutation = useMutation({
+    mutationFn: (quotation: Quotation) =>
+      api.createSaleOrder({
+        customer_id: quotation.customer_id,
+        items: quotation.items.map(({ sku_id, price, quantity }) => ({ sku_id, price, quantity })),
+        invoice_date: format(new Date(), "yyyy-MM-dd"),
+        quotation_id: quotation.id,
+      }),
+    onSuccess: (order, quotation) => {
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      toast({
+        title: "Quotation converted",
+        description: `${quotation.quote_no} is now sale order ${order.invoice_no}.`,
+      });
+      navigate(orderPath(order.id));
+    },
+    onError: (error) => {
+      // Stock and retired SKU problems are reported per line; list them
+      const details =
+        error instanceof ValidationError ? Object.values(error.fieldErrors).join("; ") : "";
+
+      toast({
+        title: "Failed to convert quotation",
+        description: [getErrorMessage(error), details].filter(Boolean).join(": "),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSearchChange = (value: string) => {
+    setListParams({ search: value }, { replace: true });
+  };
+
+  const handleCreate = () => {
+    saveQuotationMutation.reset();
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (quotation: Quotation) => {
+    saveQuotationMutation.reset();
+    setEditing(quotation);
+    setFormOpen(true);
+  };
+
+  const getQuotationHtml = (quotation: Quotation) => renderQuotationHtml(quotation);
+
+  const handlePrint = (quotation: Quotation) => {
+    try {
+      printInvoice(getQuotationHtml(quotation));
+    } catch (error) {
+      toast({
+        title: "Failed to print quotation",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isLoading = isLoadingQuotations || isLoadingCustomers || isLoadingProducts;
+  const error = quotationsError || customersError || productsError;
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-muted-foreground">Loading...</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-lg text-destructive">{getErrorMessage(error)}</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const visibleQuotations = (quotations || []).filter(
+    (quotation) =>
+      matchesQuotationSearch(quotation, search) &&
+      (status === "all" || getQuotationStatus(quotation) === status)
+  );
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold">Quotations</h1>
+          {canManage && (
+            <Button onClick={handleCreate}>
+              <Plus className="mr-2 h-4 w-4" /> Quotation
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <Tabs
+            value={status}
+            onValueChange={(value) => setListParams({ status: value as QuotationStatusTab })}
+          >
+            <TabsList>
+              {QUOTATION_STATUS_TABS.map((tab) => (
+                <TabsTrigger key={tab} value={tab}>
+                  {tab === "all" ? "All" : QUOTATION_STATUS_LABELS[tab]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="relative md:w-96">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Quote number or customer"
+              className="pl-8"
+              value={search}
+              onChange={(e) => handleSearchChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-accent">
+                <TableHead className="font-medium">Quotation</TableHead>
+                <TableHead className="font-medium">Customer</TableHead>
+                <TableHead className="font-medium">Quote Date</TableHead>
+                <TableHead className="font-medium">Valid Until</TableHead>
+                <TableHead className="font-medium">Status</TableHead>
+                <TableHead className="text-right font-medium">Total (₹)</TableHead>
+                <TableHead className="text-right font-medium">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleQuotations.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No quotations found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleQuotations.map((quotation) => (
+                  <TableRow key={quotation.id}>
+                    <TableCell>
+                      <div className="font-medium">{quotation.quote_no}</div>
+                      <div className="text-muted-foreground text-xs">
+                        Version {quotation.version}
+                        {quotation.created_by && ` · by ${quotation.created_by}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>{quotation.customer_name}</TableCell>
+                    <TableCell>{formatDate(quotation.quote_date)}</TableCell>
+                    <TableCell>{formatDate(quotation.valid_until)}</TableCell>
+                    <TableCell>
+                      <QuotationStatusBadge status={getQuotationStatus(quotation)} />
+                      {quotation.conversion && (
+                        <div className="text-xs mt-1">
+                          <Link
+                            to={orderPath(quotation.conversion.order_id)}
+                            className="text-muted-foreground hover:underline"
+                          >
+                            {quotation.conversion.invoice_no}
+                          </Link>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(quotation.grand_total)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {canConvert && canConvertQuotation(quotation) && (
+                          <Button
+                            size="sm"
+                            disabled={convertQuotationMutation.isPending}
+                            onClick={() => convertQuotationMutation.mutate(quotation)}
+                          >
+                            <ArrowRightLeft className="mr-2 h-4 w-4" /> Convert to Order
+                          </Button>
+                        )}
+                        {canManage && isQuotationEditable(quotation) && (
+                          <Button variant="outline" size="sm" onClick={() => handleEdit(quotation)}>
+                            Revise
+                          </Button>
+                        )}
+                        {quotation.revisions?.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Earlier versions"
+                            onClick={() => setHistory(quotation)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Download quotation"
+                          onClick={() =>
+                            downloadInvoice(getQuotationHtml(quotation), getQuotationFileName(quotation))
+                          }
+                        >
+                          <FileDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Print quotation"
+                          onClick={() => handlePrint(quotation)}
+                        >
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Create / Revise Quotation Modal */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Revise Quotation" : "New Quotation"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? `Saving creates version ${editing.version + 1} of ${editing.quote_no}`
+                : "Stock is only reserved once the quotation is converted to a sale order"}
+            </DialogDescription>
+          </DialogHeader>
+          <QuotationForm
+            key={editing?.id ?? "new"}
+            initialData={editing || undefined}
+            customers={customers || []}
+            products={products || []}
+            onSubmit={(data) => saveQuotationMutation.mutate({ id: editing?.id, data })}
+            isSubmitting={saveQuotationMutation.isPending}
+            submitError={saveQuotationMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Version History Modal */}
+      <Dialog open={!!history} onOpenChange={(open) => !open && setHistory(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>
+              {history && `Every version of ${history.quote_no}, as it was sent to the customer`}
+            </DialogDescription>
+          </DialogHeader>
+          {history && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-accent">
+                    <TableHead className="font-medium">Version</TableHead>
+                    <TableHead className="font-medium">Saved</TableHead>
+                    <TableHead className="font-medium">Valid Until</TableHead>
+                    <TableHead className="text-right font-medium">Total (₹)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {getQuotationVersions(history).map((version) => (
+                    <TableRow key={version.version}>
+                      <TableCell className="font-medium">
+                        {formatQuoteNo(version)}
+                        {version.version === history.version && (
+                          <span className="text-muted-foreground text-xs"> · current</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDate(version.last_modified)}</TableCell>
+                      <TableCell>{formatDate(version.valid_until)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(version.grand_total)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Download this version"
+                          onClick={() =>
+                            downloadInvoice(getQuotationHtml(version), getQuotationFileName(version))
+                          }
+                        >
+                          <FileDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Print this version"
+                          onClick={() => handlePrint(version)}
+                        >
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Quotations;
@@ -3,6 +3,7 @@ export interface Customer {
   id: number;
   customer: number;
   customer_profile: CustomerProfile;
+  is_active?: boolean;  // Deactivated customers can't be picked for new orders; missing means active
 }
 
 export interface CustomerProfile {
@@ -17,6 +18,27 @@ export interface CustomerProfile {
   gst: string;
 }
 
+export type CustomerFormData = Pick<
+  CustomerProfile,
+  "name" | "email" | "pincode" | "location_name" | "type" | "gst" | "color"
+> & {
+  is_active: boolean;
+};
+
+export type GstRate = 0 | 5 | 12 | 18 | 28;
+
+// CGST + SGST when seller and customer are in the same state, IGST otherwise
+export type SupplyType = "intra_state" | "inter_state";
+
+export interface TaxBreakup {
+  supply_type: SupplyType;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total_tax: number;
+}
+
 export interface SKU {
   id: number;
   selling_price: number;
@@ -24,7 +46,45 @@ export interface SKU {
   amount: number;
   unit: string;
   quantity_in_inventory: number;
+  reorder_level?: number;  // Flag the SKU as low once stock falls to this level
+  reorder_quantity?: number;  // Usual quantity ordered from the supplier
   product: number;
+  gst_rate?: GstRate | null;  // Overrides the product's rate when set
+  is_retired?: boolean;  // Retired SKUs stay on past orders but can't be sold; missing means on sale
+}
+
+export type SKUFormData = Pick<
+  SKU,
+  "amount" | "unit" | "selling_price" | "max_retail_price" | "gst_rate" | "reorder_level" | "reorder_quantity"
+> & {
+  is_retired: boolean;
+  opening_stock: number;  // Only used when the SKU is created; later changes go through the stock ledger
+};
+
+export type StockMovementReason =
+  | "sale"
+  | "order_edit"
+  | "cancellation"
+  | "return"
+  | "manual_adjustment"
+  | "goods_received";
+
+export interface StockMovement {
+  id: number;
+  sku_id: number;
+  quantity: number;  // Signed change: negative when stock leaves
+  balance_after: number;
+  reason: StockMovementReason;
+  order_id: number | null;
+  note: string;
+  created_at: string;
+}
+
+export interface StockAdjustmentData {
+  sku_id: number;
+  quantity: number;
+  reason: Extract<StockMovementReason, "manual_adjustment" | "goods_received">;
+  note: string;
 }
 
 export interface Product {
@@ -36,16 +96,40 @@ export interface Product {
   characteristics: string;
   features: string;
   brand: string;
+  hsn_code: string;  // Harmonised System of Nomenclature code printed on invoices
+  gst_rate: GstRate;
   sku: SKU[];
   updated_on: string;
   adding_date: string;
 }
 
+export type ProductFormData = Pick<
+  Product,
+  "name" | "brand" | "category" | "characteristics" | "features" | "hsn_code" | "gst_rate"
+>;
+
 export interface OrderItem {
   sku_id: number;
   price: number;
   quantity: number;
   product_name?: string;  // Added for display purposes
+  gst_rate?: GstRate;  // Rate applied when the order was saved
+  hsn_code?: string;  // Product's HSN code when the order was saved
+  sku_amount?: number;  // SKU's pack size when the order was saved
+  sku_unit?: string;
+}
+
+// The buyer as printed on a tax document, copied from the customer when it is
+// issued so a reprint matches the original even after the profile changes
+export interface BillingParty {
+  name: string;
+  location_name: string;
+  pincode: string;
+  email: string;
+  gstin: string;  // Empty for unregistered customers
+  // Place of supply; the seller's own state when the customer's can't be worked out
+  state_name: string;
+  state_code: string;
 }
 
 export interface SaleOrder {
@@ -53,25 +137,244 @@ export interface SaleOrder {
   customer_id: number;
   customer_name: string;
   items: OrderItem[];
-  paid: boolean;
-  invoice_no: string;
+  invoice_no: string;  // Issued in sequence by the API when the order is created
   invoice_date: string;
   created_at: string;
   last_modified: string;
-  total_price: number;
+  total_price: number;  // Taxable value: sum of price * quantity, before GST
+  tax: TaxBreakup;
+  grand_total: number;  // total_price plus GST
+  billing: BillingParty;
+  // Kept in step with the order's payments by the API
+  amount_received: number;
+  balance_due: number;
+  payment_status: PaymentStatus;
+  status: OrderStatus;
+  status_history: OrderStatusChange[];  // Oldest first, starting with the order being placed
+  // Set when the order is cancelled; the invoice is kept so numbering has no gaps
+  cancellation?: OrderCancellation;
+  quotation_id?: number;  // Quotation the order was converted from
+}
+
+export type OrderStatus =
+  | "draft"
+  | "confirmed"
+  | "packed"
+  | "dispatched"
+  | "delivered"
+  | "cancelled"
+  | "returned";
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changed_at: string;
+  changed_by: string;
 }
 
+export type CancellationReason =
+  | "customer_request"
+  | "out_of_stock"
+  | "pricing_error"
+  | "duplicate_order"
+  | "payment_not_received"
+  | "other";
+
+export interface OrderCancellation {
+  reason: CancellationReason;
+  note: string;  // Required when the reason is "other"
+  cancelled_at: string;
+  cancelled_by: string;
+  credit_note_no?: string;  // Reverses the invoice when payments had already been received
+}
+
+export type CancelSaleOrderData = Pick<OrderCancellation, "reason" | "note">;
+
 export interface SaleOrderFormData {
   customer_id: number;
   items: OrderItem[];
-  paid: boolean;
-  invoice_no: string;
   invoice_date: string;
+  allow_backorder?: boolean;  // Admin override: accept quantities above available stock
+  quotation_id?: number;  // Converts this quotation; it must still be open
 }
 
-export type OrderStatus = "active" | "completed";
+export type PaymentStatus = "unpaid" | "partially_paid" | "paid";
+
+export type PaymentMode = "cash" | "upi" | "card" | "bank_transfer" | "cheque";
+
+export interface Payment {
+  id: number;
+  order_id: number;
+  amount: number;
+  payment_date: string;  // YYYY-MM-DD
+  mode: PaymentMode;
+  reference: string;  // UPI / card transaction id, bank UTR or cheque number
+  recorded_by: string;
+  created_at: string;
+}
+
+export type PaymentFormData = Pick<Payment, "amount" | "payment_date" | "mode" | "reference">;
+
+// Goods taken back against an invoice. Lines keep the invoiced price and GST rate,
+// so the tax charged on them is reversed exactly.
+export interface CreditNote {
+  id: number;
+  credit_note_no: string;
+  credit_note_date: string;  // YYYY-MM-DD
+  order_id: number;
+  invoice_no: string;  // The invoice being credited
+  invoice_date: string;
+  customer_id: number;
+  customer_name: string;
+  items: CreditNoteItem[];  // Returned quantities
+  total_price: number;  // Taxable value returned
+  tax: TaxBreakup;
+  grand_total: number;
+  billing: BillingParty;  // As on the invoice being credited
+  note: string;
+  created_by: string;
+  created_at: string;
+}
+
+// An order can sell the same SKU on several lines at different prices, so
+// returns are made against a line rather than a SKU
+export interface CreditNoteItem extends OrderItem {
+  line: number;  // Index of the order line being credited
+}
+
+export interface ReturnFormData {
+  items: Pick<CreditNoteItem, "line" | "quantity">[];
+  note: string;
+}
+
+export interface CreditNoteQuery {
+  order_id?: number;
+  customer_id?: number;
+}
+
+// An estimate sent before the customer commits. Stock is only reserved once it's
+// converted into a sale order.
+export interface Quotation {
+  id: number;
+  quote_no: string;
+  version: number;  // Starts at 1 and goes up each time the quote is revised
+  customer_id: number;
+  customer_name: string;
+  quote_date: string;  // YYYY-MM-DD
+  valid_until: string;  // YYYY-MM-DD, inclusive
+  items: OrderItem[];
+  total_price: number;
+  tax: TaxBreakup;
+  grand_total: number;
+  billing: BillingParty;
+  notes: string;
+  created_by: string;
+  created_at: string;
+  last_modified: string;
+  // Set once the quote has become a sale order; it can't be revised after that
+  conversion?: QuotationConversion;
+  revisions?: QuotationRevision[];  // Earlier versions, oldest first; missing means never revised
+}
+
+// A version of a quotation as it stood before being revised
+export type QuotationRevision = Pick<
+  Quotation,
+  | "version"
+  | "customer_id"
+  | "customer_name"
+  | "quote_date"
+  | "valid_until"
+  | "items"
+  | "total_price"
+  | "tax"
+  | "grand_total"
+  | "billing"
+  | "notes"
+  | "last_modified"
+>;
+
+export interface QuotationConversion {
+  order_id: number;
+  invoice_no: string;
+  converted_at: string;
+  converted_by: string;
+}
+
+export type QuotationStatus = "open" | "expired" | "converted";
+
+export interface QuotationFormData {
+  customer_id: number;
+  items: OrderItem[];
+  quote_date: string;
+  valid_until: string;
+  notes: string;
+}
+
+export type SaleOrderSortField =
+  | "id"
+  | "customer_name"
+  | "total_price"
+  | "grand_total"
+  | "invoice_date"
+  | "last_modified";
+
+export type SortOrder = "asc" | "desc";
+
+export interface SaleOrderQuery {
+  status?: OrderStatus;  // All statuses when omitted
+  payment_status?: PaymentStatus;
+  page?: number;  // 1-based
+  page_size?: number;
+  sort_by?: SaleOrderSortField;
+  sort_order?: SortOrder;
+  customer_id?: number;
+  invoice_date_from?: string;  // YYYY-MM-DD, inclusive
+  invoice_date_to?: string;  // YYYY-MM-DD, inclusive
+  min_price?: number;
+  max_price?: number;
+  search?: string;  // Matches invoice number or customer name
+}
+
+export type SaleOrderFilters = Pick<
+  SaleOrderQuery,
+  | "customer_id"
+  | "payment_status"
+  | "invoice_date_from"
+  | "invoice_date_to"
+  | "min_price"
+  | "max_price"
+  | "search"
+>;
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+}
+
+export type UserRole = "admin" | "manager" | "user" | "viewer";
 
 export interface User {
   username: string;
-  password: string;
+  role: UserRole;
+}
+
+// Stored account; only a salted PBKDF2 hash of the password is kept
+export interface UserAccount extends User {
+  password_salt: string;
+  password_hash: string;
+}
+
+// Claims carried in the access token (JWT registered claim names; times in seconds)
+export interface TokenClaims {
+  sub: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+  // When the user entered their password; refreshed tokens keep it
+  auth_time: number;
+}
+
+export interface AuthToken {
+  access_token: string;
+  token_type: "Bearer";
+  expires_at: string;
 }
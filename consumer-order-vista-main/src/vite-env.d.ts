@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}